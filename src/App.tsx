@@ -1,38 +1,84 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { RefreshCcw, Moon, Sun, MoreVertical, Sparkles, ChevronDown } from 'lucide-react';
+import { RefreshCcw, Moon, Sun, MoreVertical, Sparkles, ChevronDown, Highlighter, AlertTriangle } from 'lucide-react';
+import { CitationCoverage } from './components/CitationCoverage';
 import { CryptoToken } from './components/CryptoToken';
+import { GenerationRuns } from './components/GenerationRuns';
+import { MarketSnapshotStrip } from './components/MarketSnapshotStrip';
+import { SentimentAgreementReport } from './components/SentimentAgreementReport';
+import { SentimentTrend } from './components/SentimentTrend';
+import { StructuredDigest } from './components/StructuredDigest';
 import { supabase } from './lib/supabase';
-import { format, parseISO, startOfDay, addDays } from 'date-fns';
+import { format, parseISO, startOfDay, subDays } from 'date-fns';
 
 import type { Citation } from './lib/database.types';
+import { faviconUrl, showFallbackIcon } from './lib/assets';
+import { createClientMarketProvider } from './lib/market';
 import { config } from './lib/config';
-import { createPerplexity } from '@ai-sdk/perplexity';
-import { generateText } from 'ai';
-
-// Domain filtering configuration for Perplexity API
-const DOMAIN_FILTER = [
-  // Whitelisted crypto news sources
-  "coinmetro.com",
-  "reuters.com",
-  "coingecko.com",
-  "coindesk.com",
-  "cointelegraph.com",
-  "x.com",
-  "cnbc.com",
-  "fortune.com",
-  "reddit.com",
-  "finance.yahoo.com"
-  ,
-];
-
-type NewsDigest = {
-  content: string;
-  citations: Citation[];
-  timestamp: string;
-  explicitSentiment?: MarketSentiment;
-};
-
-type MarketSentiment = 'up' | 'down' | 'neutral';
+import {
+  assertWithinBudget,
+  BudgetExceededError,
+  type BudgetRpc
+} from '../supabase/functions/_shared/budgets.ts';
+import {
+  EDITIONS,
+  currentEdition,
+  editionDay,
+  getEdition,
+  openedEditions,
+  type EditionId
+} from '../supabase/functions/_shared/editions.ts';
+import {
+  createCitationFetcher,
+  isCitationFetcherKind
+} from '../supabase/functions/_shared/enrichment.ts';
+import {
+  createLeaseHolderId,
+  leaseKey,
+  runWithLease,
+  type LeaseRpc
+} from '../supabase/functions/_shared/leases.ts';
+import { citationHref } from '../supabase/functions/_shared/links.ts';
+import {
+  generateDigest,
+  isDigestOutputMode,
+  type RejectedDigest
+} from '../supabase/functions/_shared/pipeline.ts';
+import {
+  recordRun,
+  type GenerationRunRow,
+  type RunContext,
+  type RunWriter
+} from '../supabase/functions/_shared/runs.ts';
+import {
+  analyzeSentences,
+  analyzeTokenSentiment,
+  assessDigestSentiment,
+  compareSentiments,
+  type DigestSentiment,
+  type SentenceSentiment,
+  type SentimentMatch
+} from '../supabase/functions/_shared/sentiment.ts';
+import { loadNewsSources } from '../supabase/functions/_shared/sources.ts';
+import {
+  TOKEN_MENTION_PATTERN,
+  TOKEN_MENTIONS,
+  TRACKED_TOKENS
+} from '../supabase/functions/_shared/tokens.ts';
+import {
+  buildAgreementReport,
+  buildSentimentTrend,
+  SENTIMENT_TREND_COLUMNS,
+  type SentimentTrend as SentimentTrendData,
+  type SentimentTrendRange,
+  type SentimentTrendRow
+} from '../supabase/functions/_shared/trends.ts';
+import {
+  digestFromRow,
+  digestToQuarantineRow,
+  digestToRow
+} from '../supabase/functions/_shared/summaries.ts';
+import type { MarketSentiment, NewsDigest } from '../supabase/functions/_shared/types.ts';
+import { createGenerationProvider } from './lib/providers';
 
 const FALLBACK_DATA: NewsDigest = {
   content: "The cryptocurrency market is showing resilience today with major assets maintaining their positions. Bitcoin continues to demonstrate strength above key support levels, while Ethereum's network activity remains robust. Market sentiment indicators suggest a cautiously optimistic outlook, with institutional interest remaining steady [1]. Technical analysis points to potential consolidation phases for leading cryptocurrencies [2].",
@@ -66,21 +112,25 @@ function App() {
     return savedTheme === null ? true : savedTheme === 'dark';
   });
   const [, setUsingFallback] = useState(false);
+  const [budgetNotice, setBudgetNotice] = useState<string | null>(null);
   const [showMenu, setShowMenu] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
+  const [showRuns, setShowRuns] = useState(false);
+  const [generationRuns, setGenerationRuns] = useState<GenerationRunRow[]>([]);
+  const [showTrend, setShowTrend] = useState(false);
+  const [trendDays, setTrendDays] = useState<SentimentTrendRange>(30);
+  const [sentimentTrend, setSentimentTrend] = useState<SentimentTrendData>({ points: [], unscored: 0 });
+  const [trendDigest, setTrendDigest] = useState<{ id: string; digest: NewsDigest } | null>(null);
+  const [tokenDigests, setTokenDigests] = useState<NewsDigest[]>([]);
+  const [tokenSentiments, setTokenSentiments] = useState<Record<string, MarketSentiment>>({});
+  const [selectedToken, setSelectedToken] = useState<string | null>(null);
+  const [selectedEdition, setSelectedEdition] = useState<EditionId>(() => currentEdition().id);
   const [marketSentiment, setMarketSentiment] = useState<MarketSentiment>('neutral');
   const [showSentimentDetails, setShowSentimentDetails] = useState(false);
-  const [sentimentDetails, setSentimentDetails] = useState<{ 
-    positive: number; 
-    negative: number; 
-    matches: { positive: string[]; negative: string[] }; 
-    source: 'api' | 'calculated';
-  }>({
-    positive: 0,
-    negative: 0,
-    matches: { positive: [], negative: [] },
-    source: 'calculated'
-  });
+  const [sentimentLens, setSentimentLens] = useState(false);
+  const [sentimentDetails, setSentimentDetails] = useState<DigestSentiment>(
+    () => assessDigestSentiment({ content: '' })
+  );
   const menuRef = useRef<HTMLDivElement>(null);
   const sentimentDetailsRef = useRef<HTMLDivElement>(null);
 
@@ -120,13 +170,13 @@ function App() {
 
   const checkTodaysSummary = async (): Promise<NewsDigest | null> => {
     try {
-      // Get today's date and tomorrow's date to create a proper range
-      const today = startOfDay(new Date());
-      const tomorrow = addDays(today, 1);
+      // Editions are keyed by UTC day, matching the Edge Function's dedupe
+      const day = editionDay();
       
       console.log('Checking for summaries between:', {
-        fromDate: today.toISOString(),
-        toDate: tomorrow.toISOString(),
+        edition: selectedEdition,
+        fromDate: day.start,
+        toDate: day.end,
         environment: import.meta.env.MODE // Log current environment
       });
       
@@ -134,8 +184,10 @@ function App() {
       const query = supabase
         .from('daily_summaries')
         .select('*')
-        .gte('timestamp', today.toISOString())
-        .lt('timestamp', tomorrow.toISOString())
+        .is('token', null)
+        .eq('edition', selectedEdition)
+        .gte('timestamp', day.start)
+        .lt('timestamp', day.end)
         .order('timestamp', { ascending: false })
         .limit(1);
       
@@ -152,7 +204,7 @@ function App() {
 
       if (data && data.length > 0) {
         // Validate that the summary has citations (not corrupted)
-        const summary = data[0];
+        const summary = digestFromRow(data[0]);
         if (!summary.citations || summary.citations.length === 0) {
           console.warn('Found summary with empty citations (corrupted), treating as invalid');
           return null;
@@ -173,11 +225,17 @@ function App() {
     console.log('Calling Edge Function for summary generation...');
     
     const { data, error } = await supabase.functions.invoke('generate-daily-summary', {
-      body: {},
+      body: { edition: selectedEdition, trigger: 'force-generate' },
     });
 
     if (error) {
       console.error('Edge Function error:', error);
+
+      // A budget refusal comes back as a 429 with the reason in the body
+      const body = await error.context?.json?.().catch(() => null);
+      if (body?.budgetExceeded) {
+        throw new BudgetExceededError(body.error, body.budget);
+      }
       throw new Error(`Edge Function failed: ${error.message}`);
     }
 
@@ -195,8 +253,36 @@ function App() {
     return summary;
   };
 
+  // Most recent market-wide digest of any day or edition, served when
+  // generation is refused by a budget
+  const fetchLatestSummary = async (): Promise<NewsDigest | null> => {
+    const { data, error } = await supabase
+      .from('daily_summaries')
+      .select('*')
+      .is('token', null)
+      .order('timestamp', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching latest digest:', error);
+      throw error;
+    }
+
+    return data && data.length > 0 ? digestFromRow(data[0]) : null;
+  };
+
+  const serveLatestSummary = async (refusal: BudgetExceededError) => {
+    console.warn('Generation refused:', refusal.message);
+    setBudgetNotice(refusal.message);
+
+    const latest = await fetchLatestSummary().catch(() => null) ?? getCachedData() ?? FALLBACK_DATA;
+    setNewsDigest(latest);
+    setMarketSentiment(analyzeMarketSentiment(latest));
+    setUsingFallback(latest === FALLBACK_DATA);
+  };
+
   const getCachedData = (): NewsDigest | null => {
-    const cached = localStorage.getItem('newsDigestCache');
+    const cached = localStorage.getItem(`newsDigestCache:${selectedEdition}`);
     if (cached) {
       const { data, timestamp } = JSON.parse(cached);
       const cacheAge = Date.now() - new Date(timestamp).getTime();
@@ -208,7 +294,7 @@ function App() {
   };
 
   const setCachedData = (data: NewsDigest) => {
-    localStorage.setItem('newsDigestCache', JSON.stringify({
+    localStorage.setItem(`newsDigestCache:${selectedEdition}`, JSON.stringify({
       data,
       timestamp: new Date().toISOString()
     }));
@@ -225,6 +311,7 @@ function App() {
       const latestQuery = supabase
         .from('daily_summaries')
         .select('id')
+        .is('token', null)
         .order('timestamp', { ascending: false })
         .limit(1);
       
@@ -242,6 +329,7 @@ function App() {
       const query = supabase
         .from('daily_summaries')
         .select('*')
+        .is('token', null)
         .order('timestamp', { ascending: false })
         .limit(config.MAX_HISTORICAL_SUMMARIES);
       
@@ -257,29 +345,8 @@ function App() {
         throw error;
       }
 
-      // Process and ensure each digest has a valid citations array
-      const processedDigests = (data || []).map((digest: NewsDigest) => {
-        // Ensure citations is an array
-        if (!digest.citations || !Array.isArray(digest.citations)) {
-          digest.citations = [];
-        }
-        
-        // Add in any missing properties to citation objects, but preserve existing good data
-        digest.citations = digest.citations.map((citation: any) => {
-          return {
-            number: citation.number || 0,
-            // Only use fallback title if no title exists or if title is already a generic "Source X" format
-            title: (citation.title && citation.title.trim() && !citation.title.match(/^Source \d+$/)) 
-              ? citation.title 
-              : (citation.title || getDomainName(citation.url || '#')),
-            url: citation.url || '#',
-            isCited: citation.isCited !== undefined ? citation.isCited : true,
-            favicon: citation.favicon || ''
-          };
-        });
-        
-        return digest;
-      });
+      // Broken rows are fixed or hidden by the repair-summaries function
+      const processedDigests = (data || []).map(digestFromRow);
 
       console.log("Loaded historical digests:", processedDigests.length);
       setHistoricalDigests(processedDigests);
@@ -288,473 +355,195 @@ function App() {
     }
   };
 
-  const storeSummary = async (digest: NewsDigest) => {
+  const fetchTokenDigests = async () => {
     try {
-      console.log("Storing digest in database:", {
-        content: digest.content.substring(0, 50) + "...",
-        citations: digest.citations?.length || 0,
-        timestamp: digest.timestamp,
-        environment: import.meta.env.MODE
-      });
-      
-      const query = supabase
+      const day = editionDay();
+
+      const { data, error } = await supabase
         .from('daily_summaries')
-        .insert([{
-          content: digest.content,
-          citations: digest.citations,
-          timestamp: digest.timestamp
-        }]);
-      
-      const { error } = await query;
+        .select('*')
+        .not('token', 'is', null)
+        .eq('edition', selectedEdition)
+        .gte('timestamp', day.start)
+        .lt('timestamp', day.end)
+        .order('timestamp', { ascending: false });
 
       if (error) {
-        console.error("Error storing digest:", error);
+        console.error('Error fetching token digests:', error);
         throw error;
       }
 
-      console.log("Successfully stored digest in database");
-      
-      // Refresh historical digests after storing new summary
-      await fetchHistoricalDigests();
+      // Keep the latest digest per token, in tracked-token order
+      const latestByToken = new Map<string, NewsDigest>();
+      (data || []).forEach((row) => {
+        const digest = digestFromRow(row);
+        if (digest.token && !latestByToken.has(digest.token) && digest.citations.length > 0) {
+          latestByToken.set(digest.token, digest);
+        }
+      });
+
+      const digests = TRACKED_TOKENS
+        .map(token => latestByToken.get(token.symbol))
+        .filter((digest): digest is NewsDigest => Boolean(digest));
+
+      const sentiments: Record<string, MarketSentiment> = {};
+      digests.forEach((digest) => {
+        sentiments[digest.token as string] = (digest.sentiment ?? assessDigestSentiment(digest)).label;
+      });
+
+      console.log('Loaded token digests:', digests.map(d => d.token));
+      setTokenDigests(digests);
+      setTokenSentiments(sentiments);
     } catch (err) {
-      console.error('Error storing summary:', err);
+      console.error('Error fetching token digests:', err);
     }
   };
 
-  const getDomainName = (url: string): string => {
-    try {
-      const hostname = new URL(url).hostname;
-      const parts = hostname.replace(/^www\./, '').split('.');
-      
-      if (parts.length >= 2) {
-        if (parts[0] === 'markets' && parts[1] === 'businessinsider') {
-          return `businessinsider.${parts[parts.length - 1]}`;
-        }
-        
-        return `${parts[parts.length - 2]}.${parts[parts.length - 1]}`;
-      }
-      
-      return hostname;
-    } catch {
-      return url;
-    }
-  };
+  // Returns the id of the new row so the generation lease can point at it
+  const storeSummary = async (digest: NewsDigest): Promise<string> => {
+    console.log("Storing digest in database:", {
+      content: digest.content.substring(0, 50) + "...",
+      citations: digest.citations?.length || 0,
+      timestamp: digest.timestamp,
+      promptVersion: digest.promptVersion,
+      environment: import.meta.env.MODE
+    });
 
-  const getFavicon = async (url: string): Promise<string> => {
-    try {
-      const domain = new URL(url).origin;
-      return `${domain}/favicon.ico`;
-    } catch {
-      return '';
+    const { data, error } = await supabase
+      .from('daily_summaries')
+      .insert([digestToRow(digest)])
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error("Error storing digest:", error);
+      throw error;
     }
+
+    console.log("Successfully stored digest in database");
+
+    // Refresh historical digests after storing new summary
+    await fetchHistoricalDigests();
+    return data.id;
   };
 
-  const processApiResponse = async (content: string, apiSources: any[] = []): Promise<NewsDigest> => {
-    const citations: Citation[] = [];
-    let processedContent = content;
-    
-    console.log("Original API response content:", content);
-    console.log("API provided sources:", apiSources);
-    
-    // Extract explicit sentiment if present
-    const sentimentMatch = content.match(/^SENTIMENT:\s*(BULLISH|BEARISH|NEUTRAL)/i);
-    let explicitSentiment: MarketSentiment | undefined = undefined;
-    
-    if (sentimentMatch) {
-      const sentimentValue = sentimentMatch[1].toUpperCase();
-      explicitSentiment = sentimentValue === 'BULLISH' ? 'up' : sentimentValue === 'BEARISH' ? 'down' : 'neutral';
-      
-      // Remove the SENTIMENT line from the content
-      processedContent = content.replace(/^SENTIMENT:\s*(BULLISH|BEARISH|NEUTRAL)\s*\n*/i, '').trim();
-      
-      console.log(`Explicit sentiment found: ${sentimentValue} (mapped to: ${explicitSentiment})`);
+  const loadSummary = async (id: string): Promise<NewsDigest> => {
+    const { data, error } = await supabase
+      .from('daily_summaries')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error("Error loading digest:", error);
+      throw error;
     }
 
-    // Extract citations directly from the content
-    // Look for citation patterns like [1], [2], etc.
-    const citationReferences = processedContent.match(/\[(\d+)\]/g) || [];
-    const uniqueCitationNumbers = [...new Set(citationReferences.map(ref => {
-      const match = ref.match(/\d+/);
-      return match ? parseInt(match[0], 10) : 0;
-    }).filter(num => num > 0))];
-    
-    console.log("Found citation references:", citationReferences);
-    console.log("Unique citation numbers:", uniqueCitationNumbers);
+    return digestFromRow(data);
+  };
 
-    // If we have API sources, use them first (preferred method)
-    if (apiSources && apiSources.length > 0) {
-      console.log("Using API provided sources");
-      
-      // Process sources from the AI SDK
-      for (let i = 0; i < apiSources.length; i++) {
-        const source = apiSources[i];
-        // Add 1 to index because citation numbers typically start at 1
-        const number = i + 1;
-        const url = source.url || "";
-        // Use source.title if available, otherwise fall back to domain name
-        const title = (source.title && source.title.trim() && source.title !== `Source ${number}`) 
-          ? source.title 
-          : getDomainName(url);
-        const favicon = await getFavicon(url);
-        
-        citations.push({
-          number,
-          title,
-          url,
-          isCited: true,
-          favicon
-        });
-      }
-    } else {
-      // Fall back to previous extraction methods
-      
-      // Look for a Sources section at the end in multiple formats
-      // Format 1: "Sources:" with a list of URLs
-      const sourcesBlockMatch = content.match(/(?:\*\*)?Sources(?:\*\*)?\s*(?::|$)([\s\S]+)?$/i);
-      
-      if (sourcesBlockMatch && sourcesBlockMatch[1]) {
-        console.log("Found Sources block:", sourcesBlockMatch[1]);
-        
-        // Try to match numbered URLs in the sources section
-        // Pattern: 1. http://example.com or [1] http://example.com or 1: http://example.com
-        const sourcesLines = sourcesBlockMatch[1].split('\n');
-        
-        for (const line of sourcesLines) {
-          // Match patterns like: "1. https://example.com" or "[1] https://example.com" or "1: https://example.com"
-          const sourceMatch = line.match(/(?:^|\s)(?:\[?(\d+)\]?\.?:?\s+)(https?:\/\/[^\s]+)/i);
-          
-          if (sourceMatch) {
-            const number = parseInt(sourceMatch[1], 10);
-            const url = sourceMatch[2].trim();
-            
-            console.log(`Found source #${number}: ${url}`);
-            
-            if (url) {
-              const favicon = await getFavicon(url);
-              citations.push({
-                number,
-                title: getDomainName(url),
-                url,
-                isCited: true,
-                favicon
-              });
-            }
-          }
-        }
-        
-        // Remove the Sources section from the content
-        processedContent = processedContent.replace(/(?:\*\*)?Sources(?:\*\*)?\s*(?::|$)[\s\S]+$/i, '').trim();
-      }
-      
-      // If we still haven't found any citations, look for sources format with "Sources:" section
-      if (citations.length === 0) {
-        const sourcesMatch = processedContent.match(/Sources?:?\s*([\s\S]+)$/i);
-        if (sourcesMatch) {
-          // Traditional format with Sources section
-          const sourcesSection = sourcesMatch[1];
-          const citationRegex = /\[(\d+)\]\s*([^[]+?)(?=\s*(?:\[\d+\]|$))/g;
-          let match;
-          
-          while ((match = citationRegex.exec(sourcesSection)) !== null) {
-            const number = parseInt(match[1], 10);
-            const citationText = match[2].trim();
-            const urlMatch = citationText.match(/(?:(?:https?:)?\/\/)?[\w-]+(?:\.[\w-]+)+[^\s)]+/);
-            const url = urlMatch ? urlMatch[0] : '';
-            const title = citationText
-              .replace(url, '')
-              .replace(/^[-:\s]+|[-:\s]+$/g, '')
-              .trim();
-
-            if (url) {
-              const favicon = await getFavicon(url.startsWith('http') ? url : `https://${url}`);
-              citations.push({
-                number,
-                title: title || getDomainName(url),
-                url: url.startsWith('http') ? url : `https://${url}`,
-                isCited: true,
-                favicon
-              });
-            }
-          }
+  const fetchGenerationRuns = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('generation_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(config.MAX_GENERATION_RUNS);
 
-          processedContent = processedContent.replace(/Sources?:?\s*[\s\S]+$/, '').trim();
-        }
-      }
-      
-      // If we still haven't found any citations, try inline JSON-like format
-      if (citations.length === 0) {
-        // New format - try to extract citations from inline references like "[url":"https://...]"
-        const inlineCitationRegex = /\[\s*(?:"url"\s*:\s*"([^"]+)"|'url'\s*:\s*'([^']+)')\s*\]/g;
-        let inlineMatch;
-        let citationNumber = 1;
-        
-        while ((inlineMatch = inlineCitationRegex.exec(processedContent)) !== null) {
-          const url = inlineMatch[1] || inlineMatch[2];
-          
-          if (url) {
-            const favicon = await getFavicon(url);
-            citations.push({
-              number: citationNumber++,
-              title: getDomainName(url),
-              url: url,
-              isCited: true,
-              favicon
-            });
-          }
-        }
-        
-        // Remove the inline citation references from the content
-        processedContent = processedContent.replace(/\[\s*(?:"url"\s*:\s*"[^"]+"|'url'\s*:\s*'[^']+')\s*\]/g, '');
+      if (error) {
+        console.error('Error fetching generation runs:', error);
+        throw error;
       }
-    }
 
-    // If we still have no citations but found citation references, log this issue
-    if (citations.length === 0 && uniqueCitationNumbers.length > 0) {
-      console.error("Found citation references but couldn't extract actual sources", uniqueCitationNumbers);
+      setGenerationRuns(data || []);
+    } catch (err) {
+      console.error('Error fetching generation runs:', err);
     }
-    
-    console.log("Extracted citations:", citations);
+  };
 
-    // Sort citations by number
-    citations.sort((a, b) => a.number - b.number);
+  // Market digests only; token digests would crowd the market line
+  const fetchSentimentTrend = async (days: SentimentTrendRange) => {
+    try {
+      const { data, error } = await supabase
+        .from('daily_summaries')
+        .select(SENTIMENT_TREND_COLUMNS)
+        .is('token', null)
+        .gte('timestamp', subDays(new Date(), days).toISOString())
+        .order('timestamp', { ascending: true });
 
-    // Clean up markdown formatting after citation extraction
-    processedContent = processedContent
-      .replace(/\*\*/g, '') // Remove bold formatting
-      .replace(/^\d+\.\s+/gm, '') // Remove numbered list formatting
-      .replace(/\n+/g, '\n\n'); // Normalize paragraph breaks
+      if (error) {
+        console.error('Error fetching sentiment trend:', error);
+        throw error;
+      }
 
-    // Validate that we have citations - empty citations indicate corrupted response
-    if (!citations || citations.length === 0) {
-      console.error('Invalid response from Perplexity API: no citations found');
-      throw new Error('Invalid response from Perplexity API: citations are empty or corrupted');
+      setSentimentTrend(buildSentimentTrend((data || []) as SentimentTrendRow[]));
+    } catch (err) {
+      console.error('Error fetching sentiment trend:', err);
     }
+  };
 
-    const digest: NewsDigest = {
-      content: processedContent,
-      citations: citations,
-      timestamp: new Date().toISOString(),
-      explicitSentiment
-    };
-
-    return digest;
+  const openTrendDigest = async (id: string) => {
+    try {
+      setTrendDigest({ id, digest: await loadSummary(id) });
+    } catch (err) {
+      console.error('Error opening digest from sentiment trend:', err);
+    }
   };
 
-  const analyzeMarketSentiment = (content: string): MarketSentiment => {
-    if (!content) return 'neutral';
-    
-    // Check if we have an explicit sentiment from the API and prioritize it
-    if (newsDigest?.explicitSentiment) {
-      console.log("Using explicit sentiment from API:", newsDigest.explicitSentiment);
-      
-      // Still run analysis for logging purposes but don't use the result
-      runSentimentAnalysis(content, true);
-      
-      // Set sentiment details with API as source
-      setSentimentDetails({
-        ...sentimentDetails,
-        source: 'api'
-      });
-      
-      return newsDigest.explicitSentiment;
+  // A lost audit row is logged, never surfaced: it must not fail generation.
+  // The table takes no anon inserts; the RPC validates and caps the row.
+  const writeRun: RunWriter = async (row) => {
+    const { error } = await supabase.rpc('record_generation_run', { p_run: row });
+
+    if (error) {
+      console.error("Error recording generation run:", error);
     }
-    
-    // Otherwise perform our own analysis
-    return runSentimentAnalysis(content);
   };
-  
-  const runSentimentAnalysis = (content: string, logOnly: boolean = false): MarketSentiment => {
-    // Define positive and negative keywords with context
-    const positivePatterns = [
-      { 
-        name: "Positive price movement", 
-        pattern: /\b(?:market|markets|prices?|bitcoin|btc|ethereum|eth)\b.{0,30}\b(?:up|higher|rise|rising|surge|surged|gain|gained|rally|bullish|positive)\b/gi 
-      },
-      { 
-        name: "Breaking resistance", 
-        pattern: /\b(?:increase|increased|climb|climbed|break|broke).{0,15}\b(?:resistance|key level|support)\b/gi 
-      },
-      { 
-        name: "Bullish sentiment", 
-        pattern: /\b(?:bull|bullish|uptrend|strength|strong|positive|optimistic|optimism)\b.{0,20}\b(?:sentiment|outlook|perspective|trend|market)\b/gi 
-      },
-      { 
-        name: "General positive momentum", 
-        pattern: /\b(?:outperform|recover|recovery|rebound|momentum)\b/gi 
-      }
-    ];
-    
-    const negativePatterns = [
-      { 
-        name: "Negative price movement", 
-        pattern: /\b(?:market|markets|prices?|bitcoin|btc|ethereum|eth)\b.{0,30}\b(?:down|lower|fall|falling|fell|drop|dropped|decline|declined|bearish|negative)\b/gi 
-      },
-      { 
-        name: "Breaking support", 
-        pattern: /\b(?:drop|dropped|fall|fell|sink|sank).{0,15}\b(?:below|support|key level)\b/gi 
-      },
-      { 
-        name: "Bearish sentiment", 
-        pattern: /\b(?:bear|bearish|downtrend|weakness|weak|negative|pessimistic|pessimism)\b.{0,20}\b(?:sentiment|outlook|perspective|trend|market)\b/gi 
-      },
-      { 
-        name: "General negative pressure", 
-        pattern: /\b(?:underperform|loss|selloff|pressure|correction)\b/gi 
-      }
-    ];
-    
-    // Store matched phrases for logging
-    const positiveMatches: Array<{text: string; category: string}> = [];
-    const negativeMatches: Array<{text: string; category: string}> = [];
-    
-    // Count occurrences
-    let positiveCount = 0;
-    let negativeCount = 0;
-    
-    // Check for positive patterns
-    positivePatterns.forEach(({name, pattern}) => {
-      const matches = content.match(pattern);
-      if (matches) {
-        positiveCount += matches.length;
-        matches.forEach(match => {
-          positiveMatches.push({
-            text: match.trim(),
-            category: name
-          });
-        });
-      }
-    });
-    
-    // Check for negative patterns
-    negativePatterns.forEach(({name, pattern}) => {
-      const matches = content.match(pattern);
-      if (matches) {
-        negativeCount += matches.length;
-        matches.forEach(match => {
-          negativeMatches.push({
-            text: match.trim(),
-            category: name
-          });
-        });
-      }
-    });
-    
-    // Add weight based on specific strong indicators
-    const positiveStrongPatterns = [
-      { name: "Bull market", pattern: /\b(?:bull market)\b/gi, weight: 3 },
-      { name: "Strong buy signal", pattern: /\b(?:strong buy signal)\b/gi, weight: 3 },
-      { name: "Significant rally", pattern: /\b(?:significant rally)\b/gi, weight: 3 }
-    ];
-    
-    const negativeStrongPatterns = [
-      { name: "Bear market", pattern: /\b(?:bear market)\b/gi, weight: 3 },
-      { name: "Strong sell signal", pattern: /\b(?:strong sell signal)\b/gi, weight: 3 },
-      { name: "Significant drop", pattern: /\b(?:significant drop)\b/gi, weight: 3 }
-    ];
-    
-    // Check for strong positive indicators
-    positiveStrongPatterns.forEach(({name, pattern, weight}) => {
-      const matches = content.match(pattern);
-      if (matches) {
-        positiveCount += weight * matches.length;
-        matches.forEach(match => {
-          positiveMatches.push({
-            text: `[STRONG x${weight}] ${match.trim()}`,
-            category: name
-          });
-        });
-      }
-    });
-    
-    // Check for strong negative indicators
-    negativeStrongPatterns.forEach(({name, pattern, weight}) => {
-      const matches = content.match(pattern);
-      if (matches) {
-        negativeCount += weight * matches.length;
-        matches.forEach(match => {
-          negativeMatches.push({
-            text: `[STRONG x${weight}] ${match.trim()}`,
-            category: name
-          });
-        });
+
+  // Digests rejected by the quality gate are kept for review, never published
+  const quarantineSummary = async ({ digest, report, attempt }: RejectedDigest) => {
+    try {
+      console.warn(`Quarantining digest (attempt ${attempt}):`, report.issues);
+
+      const { error } = await supabase
+        .from('quarantined_summaries')
+        .insert([digestToQuarantineRow(digest, report, attempt)]);
+
+      if (error) {
+        console.error("Error quarantining digest:", error);
+        throw error;
       }
-    });
-    
-    // Group matches by category for easy reading
-    const groupedPositiveMatches = positiveMatches.reduce((acc, {text, category}) => {
-      if (!acc[category]) acc[category] = [];
-      acc[category].push(text);
-      return acc;
-    }, {} as Record<string, string[]>);
-    
-    const groupedNegativeMatches = negativeMatches.reduce((acc, {text, category}) => {
-      if (!acc[category]) acc[category] = [];
-      acc[category].push(text);
-      return acc;
-    }, {} as Record<string, string[]>);
-    
-    // Log the sentiment analysis details
-    console.log("------- Market Sentiment Analysis -------");
-    console.log(`Content length: ${content.length} characters`);
-    console.log(`Positive indicators found: ${positiveCount}`);
-    
-    Object.entries(groupedPositiveMatches).forEach(([category, matches]) => {
-      console.log(`  [${category}] (${matches.length}):`);
-      matches.forEach((match) => console.log(`    - ${match}`));
-    });
-    
-    console.log(`Negative indicators found: ${negativeCount}`);
-    Object.entries(groupedNegativeMatches).forEach(([category, matches]) => {
-      console.log(`  [${category}] (${matches.length}):`);
-      matches.forEach((match) => console.log(`    - ${match}`));
-    });
-    
-    // Only store sentiment details for UI display if not just logging
-    if (!logOnly) {
-      // Flatten arrays for display but keep the best examples from each category
-      const flattenedPositives: string[] = [];
-      const flattenedNegatives: string[] = [];
-      
-      // Take top examples from each category for display
-      Object.entries(groupedPositiveMatches).forEach(([category, matches]) => {
-        const categoryExamples = matches.slice(0, 2); // Take up to 2 examples per category
-        flattenedPositives.push(...categoryExamples.map(m => `[${category}] ${m}`));
-      });
-      
-      Object.entries(groupedNegativeMatches).forEach(([category, matches]) => {
-        const categoryExamples = matches.slice(0, 2); // Take up to 2 examples per category
-        flattenedNegatives.push(...categoryExamples.map(m => `[${category}] ${m}`));
-      });
-      
-      setSentimentDetails({
-        positive: positiveCount,
-        negative: negativeCount,
-        matches: {
-          // Take 8 examples maximum to avoid overwhelming the UI
-          positive: flattenedPositives.slice(0, 8),
-          negative: flattenedNegatives.slice(0, 8)
-        },
-        source: 'calculated'
-      });
-    }
-    
-    // Determine sentiment based on counts, with a slight bias toward neutral
-    let sentiment: MarketSentiment = 'neutral';
-    if (positiveCount > negativeCount + 1) {
-      sentiment = 'up';
-    } else if (negativeCount > positiveCount + 1) {
-      sentiment = 'down';
-    }
-    
-    console.log(`Calculated sentiment: ${sentiment.toUpperCase()}`);
-    if (newsDigest?.explicitSentiment) {
-      console.log(`(Overridden by API explicit sentiment: ${newsDigest.explicitSentiment.toUpperCase()})`);
+    } catch (err) {
+      console.error('Error quarantining summary:', err);
     }
-    console.log("----------------------------------------");
-    
-    return sentiment;
   };
 
+  // Uses the sentiment stored at generation time. Only digests that never
+  // reached the database (cache, fallback, unscored rows) are scored here.
+  const analyzeMarketSentiment = (digest: NewsDigest): MarketSentiment => {
+    const sentiment = digest.sentiment ?? assessDigestSentiment(digest);
+    setSentimentDetails(sentiment);
+    return sentiment.label;
+  };
+
+  // Up to 8 matches per side for the details popover, in reading order
+  const sentimentIndicators = {
+    positive: sentimentDetails.indicators.filter(match => match.polarity === 'positive'),
+    negative: sentimentDetails.indicators.filter(match => match.polarity === 'negative')
+  };
+  // Per-asset breakdown of the market digest for the same popover
+  const assetSentiments = newsDigest ? analyzeTokenSentiment(newsDigest.content) : [];
+  // Provider and lexicon side by side; null when the provider stated nothing
+  const sentimentAgreement = sentimentDetails.source === 'api'
+    ? compareSentiments(sentimentDetails.label, sentimentDetails.calculated)
+    : null;
+  const sentimentLabel = (sentiment: MarketSentiment) =>
+    sentiment === 'up' ? 'Bullish' : sentiment === 'down' ? 'Bearish' : 'Neutral';
+  const sentimentColor = (sentiment: MarketSentiment) =>
+    `text-[var(--brand-${sentiment === 'up' ? 'success' : sentiment === 'down' ? 'danger' : 'info'})]`;
+  const formatIndicator = (match: SentimentMatch) =>
+    `[${match.category}] ${match.text}${match.hedged ? ' (hypothetical)' : ''}`;
+
   const fetchNewsDigest = async (forceGenerate = false) => {
     if (loading) return;
     
@@ -769,127 +558,83 @@ function App() {
         if (todaysSummary) {
           setNewsDigest(todaysSummary);
           setCachedData(todaysSummary);
-          setMarketSentiment(analyzeMarketSentiment(todaysSummary.content));
+          setMarketSentiment(analyzeMarketSentiment(todaysSummary));
           setLoading(false);
           return;
         }
       }
 
-      try {
-        // Use AI SDK to get text and sources
-        const prompt = 'Provide a unformatted concise but detailed analysis of todays most recent cryptocurrency market developments focusing on Solana Ethereum Bitcoin Polkadot Hedera Dogecoin Coinmetro token and other major tokens from multiple sources, including price movements only if major, significant news, and prevailing market sentiment with an emphasis on foresight. Only use information that is up-to-date as of the time of this request. Focus on actionable insights for traders. Sources should be diverse and not from one source. Include citations for your sources and number them sequentially. Format the response in clear paragraphs with proper spacing. Prioritize clarity, urgency, and immediate tradable insights. Use a sharp, direct voice that cuts through noise, think financial journalism meets street-smart trading floor. Avoid academic language; speak directly to traders bottom-line interests. Highlight potential opportunities and risks in a way that feels like insider knowledge, not generic reporting. Do not refer to the daily market as “todays market”—refer to it as “the market.” Only use information that is current as of the time of this request; do not include outdated or speculative data.';
-        
-        console.log("Using AI SDK to generate text");
-        
-        // Get the API key from environment variables
-        const apiKey = import.meta.env.VITE_PERPLEXITY_API_KEY;
-        if (!apiKey) {
-          throw new Error('VITE_PERPLEXITY_API_KEY environment variable is not set');
-        }
-        
-        // Create Perplexity provider instance with API key
-        const perplexity = createPerplexity({
-          apiKey: apiKey
-        });
-        
-        const { text: generatedText, sources: apiSources } = await generateText({
-          model: perplexity('sonar-pro'),
-          prompt: prompt,
-          temperature: 0.7,
-          experimental_providerMetadata: {
-            perplexity: {
-              search_domain_filter: DOMAIN_FILTER
-            }
-          }
-        });
-
-        console.log("Received response from AI SDK");
-        console.log("Sources from AI SDK:", apiSources);
-        
-        // Process the response using our helper function
-        const digest = await processApiResponse(generatedText, apiSources);
-        
-        setNewsDigest(digest);
-        setCachedData(digest);
-        await storeSummary(digest);
-        setMarketSentiment(analyzeMarketSentiment(digest.content));
-        setRetryCount(0);
-        setUsingFallback(false);
-      } catch (aiSdkError) {
-        // If AI SDK fails, fall back to direct API call
-        console.error('AI SDK Error:', aiSdkError);
-        console.log('Falling back to direct API call');
-        
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-        // Use Netlify Function in production, local proxy in development
-        const apiEndpoint = import.meta.env.PROD 
-          ? '/.netlify/functions/proxy-perplexity'
-          : '/api/chat/completions';
-
-        const response = await fetch(
-          apiEndpoint,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
+      // Every open tab polls on the same interval; the lease lets one of them
+      // (or the cron job) generate while the others wait for its row
+      const rpc: LeaseRpc = (fn, args) => supabase.rpc(fn, args);
+      const budgetRpc: BudgetRpc = (fn) => supabase.rpc(fn);
+      const key = leaseKey(editionDay(new Date()).date, selectedEdition, null);
+
+      // Force generation only happens as the "Force Generate" fallback
+      const provider = createGenerationProvider();
+      const run: RunContext = {
+        trigger: forceGenerate ? 'client-fallback' : 'client',
+        provider,
+        promptVersion: config.PROMPT_VERSION,
+        edition: selectedEdition
+      };
+
+      const outcome = await runWithLease(rpc, key, createLeaseHolderId('client'), () =>
+        recordRun(run, writeRun, async () => {
+          await assertWithinBudget(budgetRpc);
+          const sources = await loadNewsSources(() => supabase.from('news_sources').select('*'));
+          console.log(`Generating digest with ${provider.name} (${provider.model})`);
+
+          const generated = await generateDigest({
+            provider,
+            promptVersion: config.PROMPT_VERSION,
+            mode: isDigestOutputMode(config.DIGEST_OUTPUT_MODE) ? config.DIGEST_OUTPUT_MODE : 'prose',
+            structuredPromptVersion: config.STRUCTURED_PROMPT_VERSION,
+            variables: { emphasis: getEdition(selectedEdition).emphasis },
+            sources,
+            fetcher: isCitationFetcherKind(config.CITATION_FETCHER) ? createCitationFetcher(config.CITATION_FETCHER) : null,
+            freshness: {
+              maxAgeDays: config.STALE_SOURCE_MAX_AGE_DAYS,
+              staleShare: config.STALE_SOURCE_SHARE
             },
-            body: JSON.stringify({
-              model: 'sonar-pro',
-              messages: [
-                {
-                  role: 'user',
-                  content: 'Provide a unformatted concise but detailed analysis of todays most recent cryptocurrency market developments focusing on Solana Ethereum Bitcoin Polkadot Hedera Dogecoin Coinmetro token and other major tokens from multiple sources, including price movements only if major, significant news, and prevailing market sentiment with an emphasis on foresight. Only use information that is up-to-date as of the time of this request. Focus on actionable insights for traders. Sources should be diverse and not from one source. Include citations for your sources and number them sequentially. Format the response in clear paragraphs with proper spacing. Prioritize clarity, urgency, and immediate tradable insights. Use a sharp, direct voice that cuts through noise, think financial journalism meets street-smart trading floor. Avoid academic language; speak directly to traders bottom-line interests. Highlight potential opportunities and risks in a way that feels like insider knowledge, not generic reporting. Do not refer to the daily market as “todays market”—refer to it as “the market.” Only use information that is current as of the time of this request; do not include outdated or speculative data.'
-                }
-              ],
-              search_domain_filter: DOMAIN_FILTER
-            }),
-            signal: controller.signal,
-          }
-        );
+            marketData: createClientMarketProvider(),
+            edition: selectedEdition,
+            onReject: quarantineSummary
+          });
 
-        clearTimeout(timeoutId);
+          console.log(`Received response from ${generated.result.provider} using ${generated.prompt.id}`);
+          console.log('Sources from provider:', generated.result.sources);
 
-        if (!response.ok) {
-          const errorText = await response.text().catch(() => 'Unknown error');
-          console.error('API Response:', {
-            status: response.status,
-            statusText: response.statusText,
-            body: errorText
-          });
-          
-          if (response.status === 401) {
-            throw new Error('API Key is invalid or not properly configured. Please check your environment variables.');
-          }
-          
-          throw new Error(`API Error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ''}`);
-        }
+          return { generated, summaryId: await storeSummary(generated.digest) };
+        }), { force: forceGenerate });
 
-        const data = await response.json();
-        
-        // Log the raw API response
-        console.info('Raw API Response:', data);
-        
-        if (!data?.choices?.[0]?.message?.content) {
-          throw new Error('Invalid response format from API');
-        }
+      const digest = outcome.kind === 'generated'
+        ? outcome.value.generated.digest
+        : await loadSummary(outcome.summaryId);
 
-        const digest = await processApiResponse(data.choices[0].message.content);
-        setNewsDigest(digest);
-        setCachedData(digest);
-        await storeSummary(digest);
-        setMarketSentiment(analyzeMarketSentiment(digest.content));
-        setRetryCount(0);
-        setUsingFallback(false);
+      if (outcome.kind === 'reused') {
+        console.log(`Reusing digest generated by another caller: ${outcome.summaryId}`);
       }
+
+      setNewsDigest(digest);
+      setCachedData(digest);
+      setMarketSentiment(analyzeMarketSentiment(digest));
+      setRetryCount(0);
+      setUsingFallback(false);
+      setBudgetNotice(null);
     } catch (err) {
       console.error('API Error:', err);
+
+      // Retrying would only be refused again
+      if (err instanceof BudgetExceededError) {
+        await serveLatestSummary(err);
+        return;
+      }
       
       const cachedData = getCachedData();
       if (cachedData) {
         setNewsDigest(cachedData);
-        setMarketSentiment(analyzeMarketSentiment(cachedData.content));
+        setMarketSentiment(analyzeMarketSentiment(cachedData));
         setUsingFallback(true);
         setError('Using cached data from last successful update');
       } else if (!forceGenerate && retryCount < config.MAX_RETRIES) {
@@ -900,7 +645,7 @@ function App() {
         }, retryDelay);
       } else {
         setNewsDigest(FALLBACK_DATA);
-        setMarketSentiment(analyzeMarketSentiment(FALLBACK_DATA.content));
+        setMarketSentiment(analyzeMarketSentiment(FALLBACK_DATA));
         setUsingFallback(true);
         setError('Unable to fetch latest data. Showing backup content.');
       }
@@ -912,11 +657,16 @@ function App() {
   useEffect(() => {
     fetchNewsDigest(false);
     fetchHistoricalDigests();
+    fetchTokenDigests();
     const interval = setInterval(() => fetchNewsDigest(false), config.UPDATE_INTERVAL);
     return () => clearInterval(interval);
-  }, []);
+  }, [selectedEdition]);
 
-  const renderContent = useCallback((content: string, digestCitations?: Citation[]) => {
+  const renderContent = useCallback((
+    content: string,
+    digestCitations?: Citation[],
+    mentionSentiments?: Record<string, MarketSentiment>
+  ) => {
     if (!content) return null;
 
     const parts = content.split(/(\[\d+\])/);
@@ -932,7 +682,7 @@ function App() {
           return (
             <a
               key={`citation-${index}-${number}`}
-              href={citation.url}
+              href={citationHref(citation)}
               target="_blank"
               rel="noopener noreferrer"
               className="citation-link"
@@ -942,37 +692,68 @@ function App() {
             </a>
           );
         }
+
+        // Rows stored before the citation integrity pass can still hold
+        // markers with no matching source
+        if (!citation) {
+          return (
+            <span
+              key={`citation-${index}-${number}`}
+              className="citation-dangling"
+              title="No matching source"
+            >
+              [{number}]
+            </span>
+          );
+        }
       }
       
-      return formatCryptoTokens(part, index);
+      return formatCryptoTokens(part, index, mentionSentiments);
     });
 
     return processedParts;
   }, [newsDigest]);
 
-  const formatCryptoTokens = (text: string, baseIndex: number) => {
-    const cryptoRegex = /\b(Bitcoin|BTC|Ethereum|ETH|Solana|SOL|XRP|Cardano|ADA|Dogecoin|DOGE)\b/g;
-    const parts = text.split(cryptoRegex);
+  // Sentiment lens: tints each sentence with the engine's verdict on it. The
+  // sentences join back into the original text, so citation markers and
+  // token chips render as usual inside them.
+  const renderText = (
+    text: string,
+    digestCitations?: Citation[],
+    mentionSentiments?: Record<string, MarketSentiment>
+  ) => {
+    if (!sentimentLens) return renderContent(text, digestCitations, mentionSentiments);
+
+    return analyzeSentences(text).map((sentence, index) => (
+      <span
+        key={`sentence-${index}`}
+        className={sentence.matches.length > 0 ? `sentiment-sentence sentiment-sentence-${sentence.sentiment}` : undefined}
+        title={describeSentence(sentence)}
+      >
+        {renderContent(sentence.text, digestCitations, mentionSentiments)}
+      </span>
+    ));
+  };
+
+  const describeSentence = (sentence: SentenceSentiment): string | undefined => {
+    if (sentence.matches.length === 0) return undefined;
+    const verdict = sentence.sentiment === 'up' ? 'Bullish' : sentence.sentiment === 'down' ? 'Bearish' : 'Mixed';
+    return [verdict, ...sentence.matches.map(formatIndicator)].join('\n');
+  };
+
+  const formatCryptoTokens = (
+    text: string,
+    baseIndex: number,
+    mentionSentiments?: Record<string, MarketSentiment>
+  ) => {
+    // Splitting on the capture group puts the mentions at odd indexes
+    const parts = text.split(TOKEN_MENTION_PATTERN);
     
     return parts.map((part, index) => {
-      const match = part.match(/^(Bitcoin|BTC|Ethereum|ETH|Solana|SOL|XRP|Cardano|ADA|Dogecoin|DOGE)$/);
-      if (match) {
-        const symbol = {
-          'Bitcoin': 'BTC',
-          'BTC': 'BTC',
-          'Ethereum': 'ETH',
-          'ETH': 'ETH',
-          'Solana': 'SOL',
-          'SOL': 'SOL',
-          'XRP': 'XRP',
-          'Cardano': 'ADA',
-          'ADA': 'ADA',
-          'Dogecoin': 'DOGE',
-          'DOGE': 'DOGE',
-        }[match[0]] || 'BTC'; // Provide a fallback to avoid undefined
-        
+      if (index % 2 === 1) {
+        const symbol = TOKEN_MENTIONS[part];
         return (
-          <CryptoToken key={`${baseIndex}-crypto-${index}`} symbol={symbol}>
+          <CryptoToken key={`${baseIndex}-crypto-${index}`} symbol={symbol} sentiment={mentionSentiments?.[symbol]}>
             {part}
           </CryptoToken>
         );
@@ -998,14 +779,23 @@ function App() {
         const summary = await callEdgeFunction();
         
         setNewsDigest(summary);
+        await fetchTokenDigests();
         setCachedData(summary);
-        setMarketSentiment(analyzeMarketSentiment(summary.content));
+        setMarketSentiment(analyzeMarketSentiment(summary));
         setRetryCount(0);
         setUsingFallback(false);
+        setBudgetNotice(null);
         setLoading(false);
         return;
       } catch (edgeError) {
         console.error(`Edge Function attempt ${attempt} failed:`, edgeError);
+
+        // Neither a retry nor the direct API fallback would be allowed
+        if (edgeError instanceof BudgetExceededError) {
+          await serveLatestSummary(edgeError);
+          setLoading(false);
+          return;
+        }
         
         // If it's the last attempt or a corrupted response, try direct API as fallback
         const errorMessage = edgeError instanceof Error ? edgeError.message : String(edgeError);
@@ -1029,6 +819,11 @@ function App() {
   };
 
   const renderDigest = (digest: NewsDigest) => {
+    // Token chips point the way the digest leans on that token
+    const mentionSentiments = Object.fromEntries(
+      analyzeTokenSentiment(digest.content).map(token => [token.symbol, token.sentiment])
+    );
+
     // Split content by paragraphs, handling both \n\n and potentially leftover numbered lists
     const paragraphs = digest.content
       .split(/\n\n+/)
@@ -1044,7 +839,7 @@ function App() {
       if (isHeader) {
         return (
           <h3 key={`header-${index}`} className="text-base font-semibold text-[var(--text-primary)] mt-6 mb-2">
-            {renderContent(paragraph.replace(/\*\*/g, ''), digest.citations)}
+            {renderText(paragraph.replace(/\*\*/g, ''), digest.citations, mentionSentiments)}
           </h3>
         );
       }
@@ -1055,7 +850,7 @@ function App() {
         return (
           <div key={`list-item-${index}`} className="mb-2 flex">
             <span className="mr-2">{paragraph.split('.')[0]}.</span>
-            <div>{renderContent(listMatch[1], digest.citations)}</div>
+            <div>{renderText(listMatch[1], digest.citations, mentionSentiments)}</div>
           </div>
         );
       }
@@ -1063,14 +858,21 @@ function App() {
       // Normal paragraph
       return (
         <p key={`paragraph-${index}`} className="mb-4 last:mb-0">
-          {renderContent(paragraph, digest.citations)}
+          {renderText(paragraph, digest.citations, mentionSentiments)}
         </p>
       );
     });
 
     return (
       <div className="space-y-3">
-        {content}
+        {digest.marketSnapshot && <MarketSnapshotStrip snapshot={digest.marketSnapshot} />}
+
+        {digest.structured ? (
+          <StructuredDigest
+            digest={digest.structured}
+            renderText={(text) => renderText(text, digest.citations, mentionSentiments)}
+          />
+        ) : content}
         
         {digest.citations?.length > 0 && (
           <div className="mt-8 pt-6 border-t border-[var(--card-border)]">
@@ -1080,31 +882,35 @@ function App() {
                 {digest.citations.map((citation) => (
                   <a
                     key={`source-${citation.number}`}
-                    href={citation.url}
+                    href={citationHref(citation)}
                     target="_blank"
                     rel="noopener noreferrer"
-                    className="source-link group"
-                    title={citation.title}
+                    className={`source-link group ${citation.isCited ? '' : 'opacity-50'} ${citation.linkDead ? 'source-link-dead' : ''}`}
+                    title={citation.isCited ? citation.title : `${citation.title} (not referenced in the text)`}
                   >
                     <img
-                      src={citation.favicon || ''}
+                      src={faviconUrl(citation.url)}
                       alt=""
                       className="w-5 h-5 rounded-sm"
-                      onError={(e) => {
-                        const img = e.target as HTMLImageElement;
-                        try {
-                          // Parse the URL safely or use a fallback
-                          const url = citation.url.startsWith('http') ? citation.url : `https://${citation.url}`;
-                          const domain = new URL(url).hostname;
-                          img.src = `https://www.google.com/s2/favicons?domain=${domain}`;
-                        } catch {
-                          // If URL is invalid, set a generic icon
-                          img.src = 'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><line x1="12" y1="16" x2="12" y2="12"/><line x1="12" y1="8" x2="12.01" y2="8"/></svg>';
-                        }
-                      }}
+                      loading="lazy"
+                      onError={showFallbackIcon}
                     />
                     <span className="source-tooltip">
                       {citation.title || `Source ${citation.number}`}
+                      {(citation.publisher || citation.publishedAt) && (
+                        <span className="block text-[var(--text-tertiary)]">
+                          {[citation.publisher, citation.publishedAt && format(parseISO(citation.publishedAt), 'PP')]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </span>
+                      )}
+                      {citation.linkDead && (
+                        <span className="block text-[var(--brand-warning)]">
+                          {citation.archiveUrl
+                            ? 'Original link is gone; opens an archived copy'
+                            : `Link appears to be dead (${citation.httpStatus ?? 'unreachable'})`}
+                        </span>
+                      )}
                     </span>
                   </a>
                 ))}
@@ -1113,10 +919,19 @@ function App() {
           </div>
         )}
 
-        <div className="mt-6 pt-4 border-t border-[var(--card-border)]">
+        <div className="mt-6 pt-4 border-t border-[var(--card-border)] space-y-2">
           <p className="text-sm text-[var(--text-tertiary)]">
-            Generated: {format(parseISO(digest.timestamp), 'PPpp')}
+            {digest.backfilled
+              ? `Retrospective for ${format(parseISO(digest.timestamp), 'PP')}, written after the fact to fill a gap in the archive`
+              : `Generated: ${format(parseISO(digest.timestamp), 'PPpp')}`}
           </p>
+          {digest.sourceFreshness?.isStale && (
+            <p className="text-sm text-[var(--brand-warning)]">
+              Stale sources: {digest.sourceFreshness.staleSources} of {digest.sourceFreshness.datedSources} dated
+              sources were more than {digest.sourceFreshness.maxAgeDays} days old when this digest was written
+            </p>
+          )}
+          {digest.citationReport && <CitationCoverage report={digest.citationReport} />}
         </div>
       </div>
     );
@@ -1188,7 +1003,7 @@ function App() {
             </div>
           </div>
 
-          <div className="mb-4">
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
             <p className="date-text">
               {new Date().toLocaleDateString('en-US', {
                 weekday: 'long',
@@ -1196,8 +1011,33 @@ function App() {
                 day: 'numeric'
               })}
             </p>
+            <div className="flex gap-2" role="tablist" aria-label="Edition">
+              {EDITIONS.map((edition) => {
+                // Editions that have not opened yet today have nothing to show
+                const opened = openedEditions().some(e => e.id === edition.id);
+                return (
+                  <button
+                    key={`edition-${edition.id}`}
+                    role="tab"
+                    aria-selected={selectedEdition === edition.id}
+                    onClick={() => setSelectedEdition(edition.id)}
+                    disabled={!opened || loading}
+                    title={opened ? edition.label : `Opens at ${edition.startUtc} UTC`}
+                    className={`digest-tab disabled:opacity-40 disabled:cursor-not-allowed ${selectedEdition === edition.id ? 'digest-tab-active' : ''}`}
+                  >
+                    {edition.label}
+                  </button>
+                );
+              })}
+            </div>
           </div>
 
+          {budgetNotice && (
+            <p className="mb-4 text-sm text-[var(--brand-warning)]" role="status">
+              {budgetNotice}. Showing the latest stored digest.
+            </p>
+          )}
+
           <div className="mb-6 sm:mb-8">
             <div className="flex items-center gap-1 relative">
               <span className="text-xl font-bold text-[var(--text-primary)]">Markets are</span>
@@ -1210,6 +1050,12 @@ function App() {
                   {marketSentiment === 'up' && <span className="market-up">up</span>}
                   {marketSentiment === 'down' && <span className="market-down">down</span>}
                   {marketSentiment === 'neutral' && <span className="market-neutral">neutral</span>}
+                  {sentimentAgreement && sentimentAgreement !== 'agree' && (
+                    <AlertTriangle
+                      className="h-4 w-4 ml-2 text-[var(--brand-warning)]"
+                      aria-label="Provider and lexicon disagree"
+                    />
+                  )}
                 </button>
                 
                 {showSentimentDetails && (
@@ -1219,17 +1065,36 @@ function App() {
                   >
                     <h3 className="text-base font-semibold mb-2 text-[var(--text-primary)]">Sentiment Analysis</h3>
                     
-                    {newsDigest?.explicitSentiment && (
-                      <div className="mb-3 pb-3 border-b border-[var(--card-border)]">
-                        <div className="flex items-center justify-between">
-                          <span className="font-medium text-[var(--text-primary)]">API Sentiment:</span>
-                          <span className={`text-[var(--brand-${newsDigest.explicitSentiment === 'up' ? 'success' : newsDigest.explicitSentiment === 'down' ? 'danger' : 'info'})]`}>
-                            {newsDigest.explicitSentiment === 'up' ? 'Bullish' : 
-                             newsDigest.explicitSentiment === 'down' ? 'Bearish' : 'Neutral'}
-                          </span>
+                    <div className="mb-3 pb-3 border-b border-[var(--card-border)]">
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <span className="block text-xs text-[var(--text-tertiary)]">Provider (API)</span>
+                          {sentimentDetails.source === 'api' ? (
+                            <span className={sentimentColor(sentimentDetails.label)}>{sentimentLabel(sentimentDetails.label)}</span>
+                          ) : (
+                            <span className="text-[var(--text-tertiary)]">None stated</span>
+                          )}
+                        </div>
+                        <div>
+                          <span className="block text-xs text-[var(--text-tertiary)]">Lexicon</span>
+                          <span className={sentimentColor(sentimentDetails.calculated)}>{sentimentLabel(sentimentDetails.calculated)}</span>
+                          <span className="text-xs text-[var(--text-tertiary)]"> ({Math.round(sentimentDetails.confidence * 100)}% confidence)</span>
                         </div>
                       </div>
-                    )}
+                      {sentimentAgreement === 'agree' && (
+                        <div className="mt-2 text-xs text-[var(--text-tertiary)]">Both verdicts agree</div>
+                      )}
+                      {sentimentAgreement === 'partial' && (
+                        <div className="mt-2 text-xs text-[var(--brand-warning)]">
+                          Verdicts differ: {sentimentDetails.label === 'neutral' ? 'the provider' : 'the lexicon'} reads the market as neutral
+                        </div>
+                      )}
+                      {sentimentAgreement === 'conflict' && (
+                        <div className="mt-2 text-xs text-[var(--brand-warning)]">
+                          Verdicts conflict: the provider and the lexicon point opposite ways
+                        </div>
+                      )}
+                    </div>
                     
                     <div className="mb-3">
                       <div className="flex justify-between mb-2">
@@ -1278,23 +1143,51 @@ function App() {
                       </div>
                     </div>
                     
-                    {sentimentDetails.matches.positive.length > 0 && (
+                    {assetSentiments.length > 0 && (
+                      <div className="mb-3">
+                        <h4 className="font-medium text-[var(--text-primary)] mb-1">By Asset:</h4>
+                        <table className="w-full text-xs text-[var(--text-secondary)]">
+                          <thead className="text-[var(--text-tertiary)]">
+                            <tr>
+                              <th className="text-left font-normal pb-1">Asset</th>
+                              <th className="text-right font-normal pb-1">Mentions</th>
+                              <th className="text-right font-normal pb-1">Score</th>
+                              <th className="text-right font-normal pb-1">Verdict</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {assetSentiments.map((asset) => (
+                              <tr key={`asset-${asset.symbol}`} title={asset.matches.map(formatIndicator).join('\n') || undefined}>
+                                <td className="py-0.5">{asset.symbol}</td>
+                                <td className="py-0.5 text-right">{asset.mentions}</td>
+                                <td className="py-0.5 text-right">{asset.score.toFixed(2)}</td>
+                                <td className={`py-0.5 text-right text-[var(--brand-${asset.sentiment === 'up' ? 'success' : asset.sentiment === 'down' ? 'danger' : 'info'})]`}>
+                                  {asset.sentiment === 'up' ? '▲ Bullish' : asset.sentiment === 'down' ? '▼ Bearish' : 'Neutral'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
+                    {sentimentIndicators.positive.length > 0 && (
                       <div className="mb-3">
                         <h4 className="font-medium text-[var(--text-primary)] mb-1">Positive Indicators:</h4>
                         <ul className="text-xs text-[var(--text-secondary)] pl-3 space-y-1">
-                          {sentimentDetails.matches.positive.map((match, i) => (
-                            <li key={`pos-${i}`} className="truncate hover:text-clip">{match}</li>
+                          {sentimentIndicators.positive.slice(0, 8).map((match, i) => (
+                            <li key={`pos-${i}`} className="truncate hover:text-clip">{formatIndicator(match)}</li>
                           ))}
                         </ul>
                       </div>
                     )}
                     
-                    {sentimentDetails.matches.negative.length > 0 && (
+                    {sentimentIndicators.negative.length > 0 && (
                       <div>
                         <h4 className="font-medium text-[var(--text-primary)] mb-1">Negative Indicators:</h4>
                         <ul className="text-xs text-[var(--text-secondary)] pl-3 space-y-1">
-                          {sentimentDetails.matches.negative.map((match, i) => (
-                            <li key={`neg-${i}`} className="truncate hover:text-clip">{match}</li>
+                          {sentimentIndicators.negative.slice(0, 8).map((match, i) => (
+                            <li key={`neg-${i}`} className="truncate hover:text-clip">{formatIndicator(match)}</li>
                           ))}
                         </ul>
                       </div>
@@ -1302,13 +1195,13 @@ function App() {
                     
                     <div className="text-xs text-[var(--text-tertiary)] mt-3 pt-3 border-t border-[var(--card-border)]">
                       <div className="mb-1">
-                        Final verdict: <span className="font-medium">{marketSentiment === 'up' ? 'Bullish' : marketSentiment === 'down' ? 'Bearish' : 'Neutral'}</span>
-                        {sentimentDetails.source === 'api' && " (based on API assessment)"}
+                        Shown: <span className="font-medium">{sentimentLabel(marketSentiment)}</span>
+                        {sentimentDetails.source === 'api' && " (the provider's call)"}
                       </div>
                       <div>
                         {sentimentDetails.source === 'api' 
-                          ? "API's explicit sentiment assessment prioritized over calculated indicators" 
-                          : "Sentiment calculated by analyzing content for market indicators"}
+                          ? "The provider's stated sentiment is shown; the lexicon's verdict is kept alongside it for comparison"
+                          : "Sentiment calculated from weighted market indicators, allowing for negation and hedging"}
                       </div>
                     </div>
                   </div>
@@ -1321,13 +1214,55 @@ function App() {
             <div className="flex justify-between items-center mb-4">
               <div className="daily-summary">
                 <Sparkles className="h-4 w-4" />
-                <span>{loading ? 'Generating' : 'Daily Summary'}</span>
+                <span>{loading ? 'Generating' : selectedToken ? `${selectedToken} Digest` : 'Daily Summary'}</span>
               </div>
+              {!loading && (
+                <button
+                  onClick={() => setSentimentLens(!sentimentLens)}
+                  aria-pressed={sentimentLens}
+                  className={`digest-tab ${sentimentLens ? 'digest-tab-active' : ''}`}
+                  title="Tint each sentence by the sentiment it carries"
+                >
+                  <Highlighter className="h-3 w-3" />
+                  Sentiment lens
+                </button>
+              )}
             </div>
 
+            {tokenDigests.length > 0 && !loading && (
+              <div className="flex flex-wrap gap-2 mb-4" role="tablist" aria-label="Digest scope">
+                <button
+                  role="tab"
+                  aria-selected={selectedToken === null}
+                  onClick={() => setSelectedToken(null)}
+                  className={`digest-tab ${selectedToken === null ? 'digest-tab-active' : ''}`}
+                >
+                  Market
+                </button>
+                {tokenDigests.map((digest) => {
+                  const sentiment = tokenSentiments[digest.token as string];
+                  return (
+                    <button
+                      key={`tab-${digest.token}`}
+                      role="tab"
+                      aria-selected={selectedToken === digest.token}
+                      onClick={() => setSelectedToken(digest.token as string)}
+                      className={`digest-tab ${selectedToken === digest.token ? 'digest-tab-active' : ''}`}
+                    >
+                      {digest.token}
+                      {sentiment === 'up' && <span className="text-[var(--brand-success)]">▲</span>}
+                      {sentiment === 'down' && <span className="text-[var(--brand-danger)]">▼</span>}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
             <div className="content-text">
               {loading ? (
                 <LoadingSkeleton />
+              ) : selectedToken && tokenDigests.some(d => d.token === selectedToken) ? (
+                renderDigest(tokenDigests.find(d => d.token === selectedToken) as NewsDigest)
               ) : newsDigest ? (
                 renderDigest(newsDigest)
               ) : (
@@ -1360,6 +1295,16 @@ function App() {
                     <div className="mb-4">
                       <h3 className="text-base font-semibold text-[var(--text-primary)]">
                         {format(parseISO(digest.timestamp), 'PPPP')}
+                        {digest.backfilled && (
+                          <span className="backfilled-badge ml-2" title="Generated after the fact for a missed day">
+                            Backfilled
+                          </span>
+                        )}
+                        {digest.edition && (
+                          <span className="ml-2 text-sm font-normal text-[var(--text-tertiary)]">
+                            {EDITIONS.find(e => e.id === digest.edition)?.label ?? digest.edition}
+                          </span>
+                        )}
                       </h3>
                     </div>
                     <div className="content-text">
@@ -1370,6 +1315,97 @@ function App() {
               </div>
             )}
           </div>
+
+          {/* Sentiment Trend */}
+          <div className="mt-8">
+            <button
+              onClick={() => {
+                if (!showTrend) fetchSentimentTrend(trendDays);
+                setShowTrend(!showTrend);
+              }}
+              className="flex items-center gap-2 text-[var(--text-primary)] hover:text-[var(--text-secondary)] transition-colors duration-200"
+            >
+              <h2 className="text-lg font-semibold">Sentiment Trend</h2>
+              <ChevronDown
+                className={`h-5 w-5 transform transition-transform duration-200 ${
+                  showTrend ? 'rotate-180' : ''
+                }`}
+              />
+            </button>
+
+            {showTrend && (
+              <div className="mt-4 space-y-8">
+                <div className="p-6 rounded-lg border border-[var(--card-border)] bg-[var(--card-bg)]">
+                  <SentimentTrend
+                    trend={sentimentTrend}
+                    days={trendDays}
+                    onDaysChange={(days) => {
+                      setTrendDays(days);
+                      fetchSentimentTrend(days);
+                    }}
+                    onSelect={openTrendDigest}
+                    selectedId={trendDigest?.id ?? null}
+                  />
+                </div>
+
+                <div className="p-6 rounded-lg border border-[var(--card-border)] bg-[var(--card-bg)]">
+                  <h3 className="text-base font-semibold text-[var(--text-primary)] mb-4">Provider vs. Lexicon</h3>
+                  <SentimentAgreementReport
+                    report={buildAgreementReport(sentimentTrend.points)}
+                    onSelect={openTrendDigest}
+                  />
+                </div>
+
+                {trendDigest && (
+                  <div className="p-6 rounded-lg border border-[var(--card-border)] bg-[var(--card-bg)]">
+                    <div className="mb-4 flex items-start justify-between gap-4">
+                      <h3 className="text-base font-semibold text-[var(--text-primary)]">
+                        {format(parseISO(trendDigest.digest.timestamp), 'PPPP')}
+                        {trendDigest.digest.edition && (
+                          <span className="ml-2 text-sm font-normal text-[var(--text-tertiary)]">
+                            {EDITIONS.find(e => e.id === trendDigest.digest.edition)?.label ?? trendDigest.digest.edition}
+                          </span>
+                        )}
+                      </h3>
+                      <button
+                        onClick={() => setTrendDigest(null)}
+                        className="text-sm text-[var(--text-tertiary)] hover:text-[var(--text-secondary)] transition-colors duration-200"
+                      >
+                        Close
+                      </button>
+                    </div>
+                    <div className="content-text">
+                      {renderDigest(trendDigest.digest)}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Generation Runs */}
+          <div className="mt-8">
+            <button
+              onClick={() => {
+                if (!showRuns) fetchGenerationRuns();
+                setShowRuns(!showRuns);
+              }}
+              className="flex items-center gap-2 text-[var(--text-primary)] hover:text-[var(--text-secondary)] transition-colors duration-200"
+            >
+              <h2 className="text-lg font-semibold">Generation Runs</h2>
+              <ChevronDown
+                className={`h-5 w-5 transform transition-transform duration-200 ${
+                  showRuns ? 'rotate-180' : ''
+                }`}
+              />
+            </button>
+
+            {showRuns && (
+              <div className="mt-4 p-6 rounded-lg border border-[var(--card-border)] bg-[var(--card-bg)]">
+                <GenerationRuns runs={generationRuns} />
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import {
+  citationCoverage,
+  type CitationReport
+} from '../../supabase/functions/_shared/citations.ts';
+
+interface CitationCoverageProps {
+  report: CitationReport;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export function CitationCoverage({ report }: CitationCoverageProps) {
+  const [expanded, setExpanded] = useState(false);
+  const coverage = Math.round(citationCoverage(report) * 100);
+  const hasIssues = report.dangling.length > 0 || report.unused.length > 0;
+  const renumbered = Object.entries(report.renumbered).filter(([from, to]) => Number(from) !== to);
+
+  return (
+    <div className="text-sm text-[var(--text-tertiary)]">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 hover:text-[var(--text-secondary)] transition-colors duration-200"
+        aria-expanded={expanded}
+      >
+        <span>
+          Citations: {report.citedCount} of {plural(report.sourceCount, 'source')} cited ({coverage}%)
+          {hasIssues && (
+            <span className="text-[var(--brand-warning)]">
+              {report.dangling.length > 0 && ` · ${plural(report.dangling.length, 'dangling marker')}`}
+              {report.unused.length > 0 && ` · ${report.unused.length} unused`}
+            </span>
+          )}
+        </span>
+        <ChevronDown className={`h-4 w-4 transform transition-transform duration-200 ${expanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {expanded && (
+        <ul className="mt-2 space-y-1 text-xs">
+          <li>{plural(report.markerCount, 'citation marker')} in the text</li>
+          {report.dangling.length > 0 && (
+            <li>
+              Removed markers with no source: {report.dangling.map(n => `[${n}]`).join(' ')}
+            </li>
+          )}
+          {report.unused.length > 0 && (
+            <li>
+              Sources never referenced: {report.unused.map(n => `#${n}`).join(', ')}
+            </li>
+          )}
+          {renumbered.length > 0 && (
+            <li>
+              Renumbered in order of appearance: {renumbered.map(([from, to]) => `${from}→${to}`).join(', ')}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
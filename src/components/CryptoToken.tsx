@@ -1,45 +1,45 @@
 import React from 'react';
+import { showFallbackIcon, tokenLogoUrl } from '../lib/assets';
+import { formatPrice, formatVolume, useTokenQuote } from '../lib/market';
+import type { MarketSentiment } from '../../supabase/functions/_shared/types.ts';
 
 interface CryptoTokenProps {
   symbol: string;
+  // How the surrounding digest leans on this token; neutral shows no arrow
+  sentiment?: MarketSentiment;
   children: React.ReactNode;
 }
 
 const CRYPTO_TOKENS = {
   BTC: {
-    icon: 'https://cryptologos.cc/logos/bitcoin-btc-logo.svg',
     color: '#F7931A',
     bgColor: 'rgba(247, 147, 26, 0.1)',
   },
   ETH: {
-    icon: 'https://cryptologos.cc/logos/ethereum-eth-logo.svg',
     color: '#627EEA',
     bgColor: 'rgba(98, 126, 234, 0.1)',
   },
   SOL: {
-    icon: 'https://cryptologos.cc/logos/solana-sol-logo.svg',
     color: '#00DC82',
     bgColor: 'rgba(0, 220, 130, 0.1)',
   },
   XRP: {
-    icon: 'https://cryptologos.cc/logos/xrp-xrp-logo.svg',
     color: '#00AAE4',
     bgColor: 'rgba(0, 170, 228, 0.1)',
   },
   ADA: {
-    icon: 'https://cryptologos.cc/logos/cardano-ada-logo.svg',
     color: '#0033AD',
     bgColor: 'rgba(0, 51, 173, 0.1)',
   },
   DOGE: {
-    icon: 'https://cryptologos.cc/logos/dogecoin-doge-logo.svg',
     color: '#BA9F33',
     bgColor: 'rgba(186, 159, 51, 0.1)',
   },
 };
 
-export function CryptoToken({ symbol, children }: CryptoTokenProps) {
+export function CryptoToken({ symbol, sentiment, children }: CryptoTokenProps) {
   const token = CRYPTO_TOKENS[symbol as keyof typeof CRYPTO_TOKENS];
+  const quote = useTokenQuote(symbol);
   
   if (!token) return <>{children}</>;
 
@@ -55,12 +55,32 @@ export function CryptoToken({ symbol, children }: CryptoTokenProps) {
       }}
     >
       <img 
-        src={token.icon} 
+        src={tokenLogoUrl(symbol)}
         alt={symbol}
         className="w-4 h-4"
         loading="lazy"
+        onError={showFallbackIcon}
       />
       {children}
+      {sentiment === 'up' && (
+        <span className="text-[var(--brand-success)] text-[0.7em]" title="Bullish in this digest">▲</span>
+      )}
+      {sentiment === 'down' && (
+        <span className="text-[var(--brand-danger)] text-[0.7em]" title="Bearish in this digest">▼</span>
+      )}
+      {quote && (
+        <span className="token-quote">
+          <span className="font-bold">{formatPrice(quote.price)}</span>
+          {quote.change24h !== null && (
+            <span className={quote.change24h >= 0 ? 'text-[var(--brand-success)]' : 'text-[var(--brand-danger)]'}>
+              {' '}{quote.change24h >= 0 ? '+' : ''}{quote.change24h.toFixed(2)}% 24h
+            </span>
+          )}
+          {quote.volume24h !== null && (
+            <span className="block text-[var(--text-tertiary)]">Volume {formatVolume(quote.volume24h)}</span>
+          )}
+        </span>
+      )}
     </a>
   );
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { format, parseISO } from 'date-fns';
+import type { GenerationRunRow } from '../../supabase/functions/_shared/runs.ts';
+
+interface GenerationRunsProps {
+  runs: GenerationRunRow[];
+}
+
+const TRIGGER_LABELS: Record<GenerationRunRow['trigger'], string> = {
+  cron: 'Scheduled',
+  'force-generate': 'Force generate',
+  'client-fallback': 'Client fallback',
+  client: 'Client',
+  backfill: 'Backfill'
+};
+
+const formatLatency = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+export function GenerationRuns({ runs }: GenerationRunsProps) {
+  if (runs.length === 0) {
+    return <p className="text-sm text-[var(--text-tertiary)]">No generation runs recorded yet</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="text-xs uppercase text-[var(--text-tertiary)]">
+          <tr>
+            <th className="py-2 pr-4">Started</th>
+            <th className="py-2 pr-4">Trigger</th>
+            <th className="py-2 pr-4">Digest</th>
+            <th className="py-2 pr-4">Provider</th>
+            <th className="py-2 pr-4">Latency</th>
+            <th className="py-2 pr-4">Tokens / cost</th>
+            <th className="py-2 pr-4">Citations</th>
+            <th className="py-2">Outcome</th>
+          </tr>
+        </thead>
+        <tbody className="text-[var(--text-secondary)]">
+          {runs.map((run) => (
+            <tr key={run.id} className="border-t border-[var(--card-border)] align-top">
+              <td className="py-2 pr-4 whitespace-nowrap">{format(parseISO(run.started_at), 'MMM d, HH:mm')}</td>
+              <td className="py-2 pr-4">{TRIGGER_LABELS[run.trigger] ?? run.trigger}</td>
+              <td className="py-2 pr-4">
+                {[run.token ?? 'Market', run.edition].filter(Boolean).join(' · ')}
+                {run.prompt_version && (
+                  <div className="text-xs text-[var(--text-tertiary)]">{run.prompt_version}</div>
+                )}
+              </td>
+              <td className="py-2 pr-4">
+                {run.provider}
+                <div className="text-xs text-[var(--text-tertiary)]">{run.model}</div>
+              </td>
+              <td className="py-2 pr-4 whitespace-nowrap">{formatLatency(run.latency_ms)}</td>
+              <td className="py-2 pr-4">
+                {run.total_tokens ?? '–'}
+                {run.cost_usd !== null && (
+                  <div className="text-xs text-[var(--text-tertiary)]">${Number(run.cost_usd).toFixed(4)}</div>
+                )}
+              </td>
+              <td className="py-2 pr-4">{run.citation_count ?? '–'}</td>
+              <td className="py-2">
+                <span className={run.outcome === 'failed' ? 'text-[var(--brand-warning)]' : ''}>
+                  {run.outcome === 'failed' ? 'Failed' : `Succeeded${run.attempts && run.attempts > 1 ? ` (${run.attempts} attempts)` : ''}`}
+                </span>
+                {run.error && (
+                  <div className="text-xs text-[var(--text-tertiary)] max-w-xs break-words">{run.error}</div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
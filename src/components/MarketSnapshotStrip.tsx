@@ -0,0 +1,33 @@
+import { format, parseISO } from 'date-fns';
+import { formatPrice, formatVolume } from '../lib/market';
+import type { MarketSnapshot } from '../../supabase/functions/_shared/market.ts';
+
+interface MarketSnapshotStripProps {
+  snapshot: MarketSnapshot;
+}
+
+export function MarketSnapshotStrip({ snapshot }: MarketSnapshotStripProps) {
+  return (
+    <div
+      className="market-snapshot"
+      title={`Prices from ${snapshot.provider} at ${format(parseISO(snapshot.capturedAt), 'PPpp')}`}
+    >
+      <span className="shrink-0 uppercase text-[var(--text-tertiary)]">Market at time of writing</span>
+      {snapshot.quotes.map((quote) => (
+        <span
+          key={quote.symbol}
+          className="shrink-0 whitespace-nowrap"
+          title={quote.volume24h !== null ? `24h volume ${formatVolume(quote.volume24h)}` : undefined}
+        >
+          <span className="font-bold text-[var(--text-primary)]">{quote.symbol}</span>{' '}
+          {formatPrice(quote.price)}
+          {quote.change24h !== null && (
+            <span className={quote.change24h >= 0 ? 'text-[var(--brand-success)]' : 'text-[var(--brand-danger)]'}>
+              {' '}{quote.change24h >= 0 ? '+' : ''}{quote.change24h.toFixed(1)}%
+            </span>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { format, parseISO } from 'date-fns';
+import type { SentimentAgreementReport as Report } from '../../supabase/functions/_shared/trends.ts';
+import type { MarketSentiment } from '../../supabase/functions/_shared/types.ts';
+
+interface SentimentAgreementReportProps {
+  report: Report;
+  onSelect: (id: string) => void;
+}
+
+const LABELS: Record<MarketSentiment, string> = {
+  up: 'Bullish',
+  down: 'Bearish',
+  neutral: 'Neutral'
+};
+
+const ORDER: MarketSentiment[] = ['up', 'neutral', 'down'];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function SentimentAgreementReport({ report, onSelect }: SentimentAgreementReportProps) {
+  if (report.compared === 0) {
+    return <p className="text-sm text-[var(--text-tertiary)]">No digests in this range carry a provider label to compare</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm text-[var(--text-secondary)]">
+      <p>
+        Provider and lexicon agreed on {report.counts.agree} of {report.compared} labelled digests
+        {report.agreement !== null && <> (agreement {percent(report.agreement)})</>}.
+        {' '}{report.counts.partial} had one side neutral
+        {report.counts.conflict > 0 && (
+          <span className="text-[var(--brand-warning)]"> and {report.counts.conflict} made opposite calls</span>
+        )}.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs">
+          <thead className="text-[var(--text-tertiary)]">
+            <tr>
+              <th className="py-1 pr-4 text-left font-normal">Provider ↓ / Lexicon →</th>
+              {ORDER.map((calculated) => (
+                <th key={calculated} className="py-1 px-2 text-right font-normal">{LABELS[calculated]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ORDER.map((explicit) => (
+              <tr key={explicit} className="border-t border-[var(--card-border)]">
+                <td className="py-1 pr-4 text-[var(--text-tertiary)]">{LABELS[explicit]}</td>
+                {ORDER.map((calculated) => (
+                  <td
+                    key={calculated}
+                    className={`py-1 px-2 text-right ${explicit === calculated ? 'font-bold' : ''}`}
+                  >
+                    {report.confusion[explicit][calculated]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h4 className="text-xs uppercase text-[var(--text-tertiary)] mb-2">Agreement by week</h4>
+        <ul className="space-y-1 text-xs">
+          {report.weeks.map((week) => (
+            <li key={week.start} className="flex items-center gap-2">
+              <span className="w-24 shrink-0 text-[var(--text-tertiary)]">{format(parseISO(week.start), 'MMM d')}</span>
+              <span className="h-2 w-32 shrink-0 rounded-full bg-[var(--card-hover)] overflow-hidden">
+                <span
+                  className="block h-full bg-[var(--brand-info)]"
+                  style={{ width: percent(week.agreement) }}
+                />
+              </span>
+              <span>
+                {percent(week.agreement)} of {week.compared}
+                {week.conflicts > 0 && (
+                  <span className="text-[var(--brand-warning)]"> · {week.conflicts} opposite</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {report.conflicts.length > 0 && (
+        <div>
+          <h4 className="text-xs uppercase text-[var(--text-tertiary)] mb-2">Opposite calls</h4>
+          <ul className="space-y-1 text-xs">
+            {report.conflicts.map((point) => (
+              <li key={point.id}>
+                <button
+                  onClick={() => onSelect(point.id)}
+                  className="text-left hover:text-[var(--text-primary)] transition-colors duration-200"
+                >
+                  {format(parseISO(point.timestamp), 'PP')}
+                  {point.edition && ` (${point.edition})`}: provider {LABELS[point.explicit as MarketSentiment]},
+                  lexicon {LABELS[point.calculated]} ({point.score.toFixed(2)})
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import type { KeyboardEvent } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { DEFAULT_SENTIMENT_CONFIG } from '../../supabase/functions/_shared/lexicon.ts';
+import {
+  SENTIMENT_TREND_RANGES,
+  type SentimentTrend as Trend,
+  type SentimentTrendPoint,
+  type SentimentTrendRange
+} from '../../supabase/functions/_shared/trends.ts';
+import type { MarketSentiment } from '../../supabase/functions/_shared/types.ts';
+
+interface SentimentTrendProps {
+  trend: Trend;
+  days: SentimentTrendRange;
+  onDaysChange: (days: SentimentTrendRange) => void;
+  onSelect: (id: string) => void;
+  selectedId: string | null;
+}
+
+const WIDTH = 720;
+const LEFT = 40;
+const RIGHT = 8;
+const SCORE_TOP = 8;
+const SCORE_HEIGHT = 120;
+const PROVIDER_Y = 152;
+const AXIS_Y = 184;
+const HEIGHT = 192;
+const TICKS = 5;
+
+const SENTIMENT_COLORS: Record<MarketSentiment, string> = {
+  up: 'var(--brand-success)',
+  down: 'var(--brand-danger)',
+  neutral: 'var(--brand-info)'
+};
+
+const SENTIMENT_LABELS: Record<MarketSentiment, string> = {
+  up: 'Bullish',
+  down: 'Bearish',
+  neutral: 'Neutral'
+};
+
+const scoreY = (score: number) => SCORE_TOP + ((1 - score) / 2) * SCORE_HEIGHT;
+
+const describe = (point: SentimentTrendPoint) =>
+  [
+    `${format(parseISO(point.timestamp), 'PP')}${point.edition ? ` (${point.edition})` : ''}`,
+    `Calculated: ${SENTIMENT_LABELS[point.calculated]} (${point.score.toFixed(2)})`,
+    point.explicit ? `Provider: ${SENTIMENT_LABELS[point.explicit]}` : 'Provider: none'
+  ].join(' · ');
+
+export function SentimentTrend({ trend, days, onDaysChange, onSelect, selectedId }: SentimentTrendProps) {
+  const end = new Date();
+  const start = subDays(end, days);
+  const span = end.getTime() - start.getTime();
+  const x = (timestamp: string) =>
+    LEFT + ((parseISO(timestamp).getTime() - start.getTime()) / span) * (WIDTH - LEFT - RIGHT);
+
+  const { points } = trend;
+  const threshold = DEFAULT_SENTIMENT_CONFIG.threshold;
+  const ticks = Array.from({ length: TICKS }, (_, i) => new Date(start.getTime() + (span * i) / (TICKS - 1)));
+
+  const pointProps = (point: SentimentTrendPoint) => ({
+    role: 'button',
+    tabIndex: 0,
+    className: 'cursor-pointer',
+    'aria-label': describe(point),
+    onClick: () => onSelect(point.id),
+    onKeyDown: (event: KeyboardEvent) => {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        onSelect(point.id);
+      }
+    }
+  });
+
+  return (
+    <div className="text-sm text-[var(--text-tertiary)]">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex gap-2" role="group" aria-label="Trend range">
+          {SENTIMENT_TREND_RANGES.map((range) => (
+            <button
+              key={range}
+              aria-pressed={days === range}
+              onClick={() => onDaysChange(range)}
+              className={`digest-tab ${days === range ? 'digest-tab-active' : ''}`}
+            >
+              {range} days
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-4 text-xs">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-4 border-t-2 border-[var(--text-secondary)]" />
+            Calculated score
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-2 h-2 rotate-45 bg-[var(--text-secondary)]" />
+            Provider (API) label
+          </span>
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <p>No scored digests in the last {days} days</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="group" aria-label={`Market sentiment over the last ${days} days`}>
+          {/* Score scale: bullish above, bearish below, threshold band in between */}
+          <rect
+            x={LEFT}
+            y={scoreY(threshold)}
+            width={WIDTH - LEFT - RIGHT}
+            height={scoreY(-threshold) - scoreY(threshold)}
+            style={{ fill: 'var(--text-tertiary)', opacity: 0.15 }}
+          />
+          {[1, 0, -1].map((score) => (
+            <g key={score}>
+              <line
+                x1={LEFT}
+                x2={WIDTH - RIGHT}
+                y1={scoreY(score)}
+                y2={scoreY(score)}
+                style={{ stroke: 'var(--text-tertiary)', opacity: 0.5 }}
+                strokeDasharray={score === 0 ? undefined : '2 4'}
+              />
+              <text x={LEFT - 6} y={scoreY(score) + 4} textAnchor="end" fontSize={10} style={{ fill: 'var(--text-tertiary)' }}>
+                {score > 0 ? '+1' : score}
+              </text>
+            </g>
+          ))}
+
+          <polyline
+            points={points.map((point) => `${x(point.timestamp)},${scoreY(point.score)}`).join(' ')}
+            fill="none"
+            strokeWidth={1.5}
+            style={{ stroke: 'var(--text-secondary)', opacity: 0.6 }}
+          />
+          {points.map((point) => (
+            <circle
+              key={`calculated-${point.id}`}
+              cx={x(point.timestamp)}
+              cy={scoreY(point.score)}
+              r={point.id === selectedId ? 6 : 4}
+              style={{ fill: SENTIMENT_COLORS[point.calculated] }}
+              {...pointProps(point)}
+            >
+              <title>{describe(point)}</title>
+            </circle>
+          ))}
+
+          {/* Provider labels on their own lane: they are verdicts, not scores */}
+          <text x={LEFT - 6} y={PROVIDER_Y + 4} textAnchor="end" fontSize={10} style={{ fill: 'var(--text-tertiary)' }}>
+            API
+          </text>
+          <line x1={LEFT} x2={WIDTH - RIGHT} y1={PROVIDER_Y} y2={PROVIDER_Y} style={{ stroke: 'var(--text-tertiary)', opacity: 0.5 }} />
+          {points.filter((point) => point.explicit).map((point) => {
+            const size = point.id === selectedId ? 6 : 4;
+            return (
+              <rect
+                key={`explicit-${point.id}`}
+                x={x(point.timestamp) - size}
+                y={PROVIDER_Y - size}
+                width={size * 2}
+                height={size * 2}
+                transform={`rotate(45 ${x(point.timestamp)} ${PROVIDER_Y})`}
+                style={{ fill: SENTIMENT_COLORS[point.explicit as MarketSentiment] }}
+                {...pointProps(point)}
+              >
+                <title>{describe(point)}</title>
+              </rect>
+            );
+          })}
+
+          {ticks.map((tick, index) => (
+            <text
+              key={tick.getTime()}
+              x={LEFT + ((tick.getTime() - start.getTime()) / span) * (WIDTH - LEFT - RIGHT)}
+              y={AXIS_Y}
+              textAnchor={index === TICKS - 1 ? 'end' : 'middle'}
+              fontSize={10}
+              style={{ fill: 'var(--text-tertiary)' }}
+            >
+              {format(tick, 'MMM d')}
+            </text>
+          ))}
+        </svg>
+      )}
+
+      {trend.unscored > 0 && (
+        <p className="mt-2 text-xs">
+          {trend.unscored} digest{trend.unscored === 1 ? ' has' : 's have'} no stored sentiment yet and
+          {trend.unscored === 1 ? ' is' : ' are'} not plotted
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import React from 'react';
+import { AlertTriangle, TrendingUp } from 'lucide-react';
+import type {
+  StructuredClaim,
+  StructuredDigest as StructuredDigestData,
+  StructuredSentimentLabel
+} from '../../supabase/functions/_shared/structured.ts';
+
+interface StructuredDigestProps {
+  digest: StructuredDigestData;
+  // Renders inline text with citation links and token chips
+  renderText: (text: string) => React.ReactNode;
+}
+
+const SENTIMENT_CLASS: Record<StructuredSentimentLabel, string> = {
+  bullish: 'market-up',
+  bearish: 'market-down',
+  neutral: 'market-neutral',
+};
+
+const claimText = (claim: StructuredClaim) =>
+  `${claim.text}${claim.citations.map(n => `[${n}]`).join('')}`;
+
+export function StructuredDigest({ digest, renderText }: StructuredDigestProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className={SENTIMENT_CLASS[digest.sentiment.label]}>
+          {digest.sentiment.label}
+        </span>
+        <span className="text-xs text-[var(--text-tertiary)]">
+          {Math.round(digest.sentiment.confidence * 100)}% confidence
+        </span>
+      </div>
+
+      <p className="mb-4 font-semibold text-[var(--text-primary)]">{renderText(digest.headline)}</p>
+
+      {digest.sentiment.rationale && (
+        <p className="mb-4 text-sm text-[var(--text-tertiary)]">{digest.sentiment.rationale}</p>
+      )}
+
+      {digest.sections.map((section, index) => (
+        <div key={`section-${index}`}>
+          <h3 className="text-base font-semibold text-[var(--text-primary)] mt-6 mb-2">
+            {section.heading}
+          </h3>
+          <p className="mb-4 last:mb-0">
+            {renderText(section.claims.map(claimText).join(' '))}
+          </p>
+        </div>
+      ))}
+
+      {digest.tokens.length > 0 && (
+        <div>
+          <h3 className="text-base font-semibold text-[var(--text-primary)] mt-6 mb-2">Token Notes</h3>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {digest.tokens.map((token) => (
+              <div
+                key={`token-${token.symbol}`}
+                className="p-3 rounded-lg border border-[var(--card-border)] text-sm"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-semibold text-[var(--text-primary)]">{renderText(token.symbol)}</span>
+                  <span className={`${SENTIMENT_CLASS[token.sentiment]} text-xs`}>{token.sentiment}</span>
+                </div>
+                <div>{renderText(claimText({ text: token.note, citations: token.citations }))}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(digest.risks.length > 0 || digest.opportunities.length > 0) && (
+        <div className="grid gap-6 sm:grid-cols-2 mt-6">
+          <div>
+            <h3 className="flex items-center gap-2 text-base font-semibold text-[var(--text-primary)] mb-2">
+              <AlertTriangle className="h-4 w-4 text-[var(--brand-danger)]" />
+              Key Risks
+            </h3>
+            <ul className="space-y-2 text-sm">
+              {digest.risks.map((claim, index) => (
+                <li key={`risk-${index}`}>{renderText(claimText(claim))}</li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h3 className="flex items-center gap-2 text-base font-semibold text-[var(--text-primary)] mb-2">
+              <TrendingUp className="h-4 w-4 text-[var(--brand-success)]" />
+              Opportunities
+            </h3>
+            <ul className="space-y-2 text-sm">
+              {digest.opportunities.map((claim, index) => (
+                <li key={`opportunity-${index}`}>{renderText(claimText(claim))}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { SyntheticEvent } from 'react';
+import {
+  assetHostname,
+  assetUrl,
+  faviconKey,
+  tokenLogoKey
+} from '../../supabase/functions/_shared/assets.ts';
+import sourceFallbackIcon from '../assets/source-fallback.svg';
+import { config } from './config';
+
+// Bundled with the app, so it shows even when the asset cache is unreachable
+export const FALLBACK_ICON = sourceFallbackIcon;
+
+export const faviconUrl = (url: string): string => {
+  const hostname = assetHostname(url);
+  return hostname ? assetUrl(config.ASSET_BASE_URL, faviconKey(hostname)) : FALLBACK_ICON;
+};
+
+export const tokenLogoUrl = (symbol: string): string =>
+  assetUrl(config.ASSET_BASE_URL, tokenLogoKey(symbol));
+
+// onError handler for cached images: swaps in the bundled icon once, so a
+// missing fallback cannot loop
+export const showFallbackIcon = (event: SyntheticEvent<HTMLImageElement>) => {
+  const img = event.currentTarget;
+  if (!img.src.endsWith(FALLBACK_ICON)) {
+    img.src = FALLBACK_ICON;
+  }
+};
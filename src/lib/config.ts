@@ -9,7 +9,53 @@ export const config = {
   
   // Maximum number of historical summaries to display
   MAX_HISTORICAL_SUMMARIES: 30,
+
+  // Maximum number of generation runs to display in the runs log
+  MAX_GENERATION_RUNS: 50,
   
   // Cache duration in milliseconds (24 hours)
   CACHE_DURATION: 24 * 60 * 60 * 1000,
+
+  // LLM provider used for digest generation: 'perplexity', 'openai-compatible' or 'stub'
+  // The stub replays recorded responses and needs no API key
+  DIGEST_PROVIDER: import.meta.env.VITE_DIGEST_PROVIDER || 'perplexity',
+
+  // Model name passed to the provider
+  DIGEST_MODEL: import.meta.env.VITE_DIGEST_MODEL || 'sonar-pro',
+
+  // Base URL for 'openai-compatible' providers (e.g. https://api.openai.com/v1)
+  DIGEST_BASE_URL: import.meta.env.VITE_DIGEST_BASE_URL || '',
+
+  // Prompt template used for generation, as "<name>@<version>"
+  // Omit the version ("daily-digest") to always use the latest one
+  PROMPT_VERSION: import.meta.env.VITE_PROMPT_VERSION || 'daily-digest@3',
+
+  // 'structured' asks the model for a validated JSON document and falls back
+  // to 'prose' when validation fails
+  DIGEST_OUTPUT_MODE: import.meta.env.VITE_DIGEST_OUTPUT_MODE || 'prose',
+  STRUCTURED_PROMPT_VERSION: import.meta.env.VITE_STRUCTURED_PROMPT_VERSION || 'daily-digest-structured@2',
+
+  // Citation metadata enrichment: 'http', 'fixture' (recorded pages) or 'none'.
+  // Browsers block most cross-origin page fetches, so the client leaves it to
+  // the Edge Function by default
+  CITATION_FETCHER: import.meta.env.VITE_CITATION_FETCHER || 'none',
+
+  // A digest is flagged stale when more than STALE_SOURCE_SHARE of its dated
+  // sources are older than STALE_SOURCE_MAX_AGE_DAYS
+  STALE_SOURCE_MAX_AGE_DAYS: Number(import.meta.env.VITE_STALE_SOURCE_MAX_AGE_DAYS) || 3,
+  STALE_SOURCE_SHARE: Number(import.meta.env.VITE_STALE_SOURCE_SHARE) || 0.5,
+
+  // Where cached favicons and token logos are served from. Defaults to the
+  // public `assets` bucket filled by the cache-assets Edge Function
+  ASSET_BASE_URL: import.meta.env.VITE_ASSET_BASE_URL ||
+    `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/assets`,
+
+  // Prices on token chips: 'coingecko', 'fixture' (recorded quotes) or 'none'.
+  // VITE_MARKET_DATA_BASE_URL and VITE_MARKET_DATA_API_KEY select a CoinGecko
+  // plan; the public API needs neither
+  MARKET_DATA_PROVIDER: import.meta.env.VITE_MARKET_DATA_PROVIDER || 'coingecko',
+  MARKET_DATA_BASE_URL: import.meta.env.VITE_MARKET_DATA_BASE_URL || '',
+
+  // How long a fetched price is reused before chips ask again
+  QUOTE_CACHE_DURATION: 60 * 1000,
 } as const;
\ No newline at end of file
@@ -1,37 +1,41 @@
+import type {
+  Citation,
+  DailySummaryInsert,
+  DailySummaryRow,
+  QuarantinedSummaryInsert,
+  QuarantinedSummaryRow
+} from '../../supabase/functions/_shared/types.ts';
+import type {
+  GenerationRunInsert,
+  GenerationRunRow
+} from '../../supabase/functions/_shared/runs.ts';
+import type { NewsSource } from '../../supabase/functions/_shared/sources.ts';
+
+export type { Citation };
+
 export interface Database {
   public: {
     Tables: {
       daily_summaries: {
-        Row: {
-          id: string;
-          content: string;
-          citations: Citation[];
-          timestamp: string;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          content: string;
-          citations: Citation[];
-          timestamp: string;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          content?: string;
-          citations?: Citation[];
-          timestamp?: string;
-          created_at?: string;
-        };
+        Row: DailySummaryRow;
+        Insert: DailySummaryInsert;
+        Update: Partial<DailySummaryRow>;
+      };
+      quarantined_summaries: {
+        Row: QuarantinedSummaryRow;
+        Insert: QuarantinedSummaryInsert;
+        Update: Partial<QuarantinedSummaryRow>;
+      };
+      generation_runs: {
+        Row: GenerationRunRow;
+        Insert: GenerationRunInsert;
+        Update: Partial<GenerationRunRow>;
+      };
+      news_sources: {
+        Row: NewsSource;
+        Insert: Omit<NewsSource, 'id'>;
+        Update: Partial<NewsSource>;
       };
     };
   };
 }
-
-export interface Citation {
-  number: number;
-  title: string;
-  url: string;
-  isCited: boolean;
-  favicon?: string;
-}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import {
+  createMarketDataProvider,
+  createQuoteBatcher,
+  isMarketDataProviderKind,
+  type MarketDataProvider,
+  type QuoteBatcher,
+  type TokenQuote
+} from '../../supabase/functions/_shared/market.ts';
+import { config } from './config';
+
+// A bad setting only costs the prices, never the page. Also used for the
+// snapshot stored with digests generated in the browser.
+export const createClientMarketProvider = (): MarketDataProvider | null => {
+  if (!isMarketDataProviderKind(config.MARKET_DATA_PROVIDER)) {
+    console.error(`Unknown market data provider configured: ${config.MARKET_DATA_PROVIDER}`);
+    return null;
+  }
+
+  return createMarketDataProvider({
+    kind: config.MARKET_DATA_PROVIDER,
+    baseUrl: config.MARKET_DATA_BASE_URL || undefined,
+    apiKey: import.meta.env.VITE_MARKET_DATA_API_KEY || undefined
+  });
+};
+
+const createClientQuoteBatcher = (): QuoteBatcher | null => {
+  const provider = createClientMarketProvider();
+  return provider ? createQuoteBatcher(provider, { ttlMs: config.QUOTE_CACHE_DURATION }) : null;
+};
+
+// One batcher for the whole page, so chips that render together share a request
+const quoteBatcher = createClientQuoteBatcher();
+
+export function useTokenQuote(symbol: string): TokenQuote | null {
+  const [quote, setQuote] = useState<TokenQuote | null>(null);
+
+  useEffect(() => {
+    if (!quoteBatcher) return;
+
+    let cancelled = false;
+    quoteBatcher.get(symbol).then((result) => {
+      if (!cancelled) setQuote(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol]);
+
+  return quote;
+}
+
+export const formatPrice = (price: number): string =>
+  price.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: price < 1 ? 4 : 2
+  });
+
+export const formatVolume = (volume: number): string =>
+  volume.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1
+  });
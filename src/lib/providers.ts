@@ -0,0 +1,83 @@
+import {
+  createDigestProvider,
+  createFallbackProvider,
+  isDigestProviderKind,
+  type DigestProvider,
+  type DigestProviderSettings
+} from '../../supabase/functions/_shared/providers.ts';
+import { config } from './config';
+
+const getProviderSettings = (): DigestProviderSettings => {
+  if (!isDigestProviderKind(config.DIGEST_PROVIDER)) {
+    throw new Error(`Unknown digest provider configured: ${config.DIGEST_PROVIDER}`);
+  }
+
+  return {
+    kind: config.DIGEST_PROVIDER,
+    model: config.DIGEST_MODEL,
+    baseUrl: config.DIGEST_BASE_URL || undefined
+  };
+};
+
+// Provider called directly from the browser with the configured API key
+const createClientDigestProvider = (): DigestProvider => {
+  const settings = getProviderSettings();
+
+  if (settings.kind === 'stub') {
+    return createDigestProvider(settings);
+  }
+
+  if (settings.kind === 'openai-compatible' && !settings.baseUrl) {
+    throw new Error('VITE_DIGEST_BASE_URL must be set for the openai-compatible digest provider');
+  }
+
+  const apiKey = import.meta.env.VITE_DIGEST_API_KEY || import.meta.env.VITE_PERPLEXITY_API_KEY;
+  if (!apiKey) {
+    throw new Error(
+      settings.kind === 'perplexity'
+        ? 'VITE_PERPLEXITY_API_KEY environment variable is not set'
+        : 'VITE_DIGEST_API_KEY environment variable is not set'
+    );
+  }
+
+  return createDigestProvider({ ...settings, apiKey });
+};
+
+// Perplexity routed through the Netlify function in production or the Vite
+// dev proxy locally; both inject the API key server-side. Neither forwards
+// anywhere else, so other providers have no proxied route.
+const createProxiedDigestProvider = (): DigestProvider => {
+  const settings = getProviderSettings();
+
+  if (settings.kind !== 'perplexity') {
+    throw new Error(`The generation proxy only forwards to Perplexity, not ${settings.kind}`);
+  }
+
+  return createDigestProvider({
+    ...settings,
+    endpoint: import.meta.env.PROD
+      ? '/.netlify/functions/proxy-perplexity'
+      : '/api/chat/completions'
+  });
+};
+
+// Direct call first; for Perplexity, fall back to the proxy if that fails
+// (CORS, missing key). Other providers are only called at their configured
+// base URL, and a configuration error is thrown as is.
+export const createGenerationProvider = (): DigestProvider => {
+  if (config.DIGEST_PROVIDER !== 'perplexity') {
+    return createClientDigestProvider();
+  }
+
+  const providers: DigestProvider[] = [];
+
+  try {
+    providers.push(createClientDigestProvider());
+  } catch (err) {
+    console.warn('Direct provider unavailable, using proxy only:', err);
+  }
+
+  providers.push(createProxiedDigestProvider());
+
+  return createFallbackProvider(providers);
+};
@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+import { TOKEN_LOGO_SOURCES } from './assets.ts';
+import { TRACKED_TOKENS } from './tokens.ts';
+
+describe('TOKEN_LOGO_SOURCES', () => {
+  it.each(TRACKED_TOKENS.map(token => token.symbol))('caches a logo for %s', symbol => {
+    expect(TOKEN_LOGO_SOURCES[symbol]).toMatch(/^https:\/\//);
+  });
+});
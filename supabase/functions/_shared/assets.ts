@@ -0,0 +1,163 @@
+// Self-hosted favicon and token logo cache.
+//
+// Source favicons and token logos are fetched once by the `cache-assets` Edge
+// Function and written to an asset store; the UI only ever loads them from
+// there, so readers are not tracked by third-party icon hosts and images do
+// not break when those hosts change. Stores are pluggable: Supabase Storage in
+// production, a local directory when running functions locally.
+
+export interface AssetStore {
+  name: string;
+  exists(key: string): Promise<boolean>;
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+}
+
+// The subset of `supabase.storage.from(bucket)` the Storage backend needs
+export interface StorageBucketApi {
+  list(
+    path?: string,
+    options?: { search?: string; limit?: number }
+  ): PromiseLike<{ data: { name: string }[] | null; error: { message: string } | null }>;
+  upload(
+    path: string,
+    body: Uint8Array,
+    options?: { contentType?: string; upsert?: boolean; cacheControl?: string }
+  ): PromiseLike<{ error: { message: string } | null }>;
+}
+
+// Filesystem calls for the directory backend, injected so this module stays
+// runtime-independent
+export interface DirectoryApi {
+  exists(path: string): Promise<boolean>;
+  writeFile(path: string, body: Uint8Array): Promise<void>;
+}
+
+export interface CachedAsset {
+  key: string;
+  sourceUrl: string;
+  contentType: string;
+  bytes: number;
+}
+
+// Hot-linked until now; fetched once by the cache and never by readers
+export const TOKEN_LOGO_SOURCES: Record<string, string> = {
+  BTC: 'https://cryptologos.cc/logos/bitcoin-btc-logo.svg',
+  ETH: 'https://cryptologos.cc/logos/ethereum-eth-logo.svg',
+  SOL: 'https://cryptologos.cc/logos/solana-sol-logo.svg',
+  XRP: 'https://cryptologos.cc/logos/xrp-xrp-logo.svg',
+  ADA: 'https://cryptologos.cc/logos/cardano-ada-logo.svg',
+  DOGE: 'https://cryptologos.cc/logos/dogecoin-doge-logo.svg',
+  DOT: 'https://cryptologos.cc/logos/polkadot-new-dot-logo.svg',
+  HBAR: 'https://cryptologos.cc/logos/hedera-hbar-logo.svg',
+  // The exchange's own mark, which its token shares
+  XCM: 'https://coinmetro.com/favicon.ico'
+};
+
+// Icons are small; anything bigger is not a favicon
+const MAX_ASSET_BYTES = 256 * 1024;
+const DEFAULT_TIMEOUT_MS = 8000;
+
+export const assetHostname = (url: string): string | null => {
+  try {
+    return new URL(url.startsWith('http') ? url : `https://${url}`).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+// Keys carry no extension; the stored content type tells the browser the format
+export const faviconKey = (hostname: string): string => `favicons/${hostname}`;
+
+export const tokenLogoKey = (symbol: string): string => `tokens/${symbol.toUpperCase()}`;
+
+// Where to look for a site's icon, best first. The Google service is only
+// ever called from the cache, never from a reader's browser.
+export const faviconSources = (hostname: string): string[] => [
+  `https://${hostname}/favicon.ico`,
+  `https://www.google.com/s2/favicons?domain=${encodeURIComponent(hostname)}&sz=64`
+];
+
+export const assetUrl = (baseUrl: string, key: string): string =>
+  `${baseUrl.replace(/\/+$/, '')}/${key}`;
+
+export const createStorageAssetStore = (bucket: StorageBucketApi): AssetStore => ({
+  name: 'supabase-storage',
+  async exists(key) {
+    const slash = key.lastIndexOf('/');
+    const folder = key.slice(0, slash);
+    const file = key.slice(slash + 1);
+    const { data, error } = await bucket.list(folder, { search: file, limit: 100 });
+    if (error) {
+      throw new Error(`supabase-storage: ${error.message}`);
+    }
+    return (data ?? []).some(entry => entry.name === file);
+  },
+  async put(key, body, contentType) {
+    const { error } = await bucket.upload(key, body, {
+      contentType,
+      upsert: true,
+      // A week; the cache refreshes icons only when asked to
+      cacheControl: '604800'
+    });
+    if (error) {
+      throw new Error(`supabase-storage: ${error.message}`);
+    }
+  }
+});
+
+export const createDirectoryAssetStore = (root: string, fs: DirectoryApi): AssetStore => ({
+  name: 'directory',
+  exists: (key) => fs.exists(`${root.replace(/\/+$/, '')}/${key}`),
+  put: (key, body) => fs.writeFile(`${root.replace(/\/+$/, '')}/${key}`, body)
+});
+
+const fetchImage = async (url: string): Promise<{ body: Uint8Array; contentType: string }> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, { redirect: 'follow', signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`${url} returned ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+    if (!contentType.startsWith('image/')) {
+      throw new Error(`${url} is not an image (${contentType || 'no content type'})`);
+    }
+
+    const body = new Uint8Array(await response.arrayBuffer());
+    if (body.byteLength === 0 || body.byteLength > MAX_ASSET_BYTES) {
+      throw new Error(`${url} returned ${body.byteLength} bytes`);
+    }
+    return { body, contentType };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Stores the first source that yields an image. Returns null when the asset
+// is already cached (unless `force`); throws when every source fails.
+export const cacheAsset = async (
+  store: AssetStore,
+  key: string,
+  sources: string[],
+  options: { force?: boolean } = {}
+): Promise<CachedAsset | null> => {
+  if (!options.force && await store.exists(key)) {
+    return null;
+  }
+
+  const failures: string[] = [];
+  for (const sourceUrl of sources) {
+    try {
+      const { body, contentType } = await fetchImage(sourceUrl);
+      await store.put(key, body, contentType);
+      return { key, sourceUrl, contentType, bytes: body.byteLength };
+    } catch (err) {
+      failures.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  throw new Error(`No usable image for ${key}: ${failures.join('; ')}`);
+};
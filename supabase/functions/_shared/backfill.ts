@@ -0,0 +1,44 @@
+// Backfill planning for days the scheduled run missed.
+//
+// A day counts as covered when it has at least one visible market-wide
+// summary with citations. Backfilled digests are timestamped at the end of the
+// day they describe and flagged so the UI can badge them.
+
+// Cap per request; each missing day costs one generation
+export const MAX_BACKFILL_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (date: string): Date => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid date: ${date} (expected YYYY-MM-DD)`);
+  }
+  return new Date(`${date}T00:00:00.000Z`);
+};
+
+// Inclusive list of UTC dates from `from` to `to`
+export const datesInRange = (from: string, to: string): string[] => {
+  const start = parseDate(from).getTime();
+  const end = parseDate(to).getTime();
+
+  if (end < start) {
+    throw new Error(`Backfill range ends before it starts: ${from} to ${to}`);
+  }
+
+  const days = Math.round((end - start) / DAY_MS) + 1;
+  if (days > MAX_BACKFILL_DAYS) {
+    throw new Error(`Backfill range covers ${days} days; at most ${MAX_BACKFILL_DAYS} are allowed per request`);
+  }
+
+  return Array.from({ length: days }, (_, i) => new Date(start + i * DAY_MS).toISOString().slice(0, 10));
+};
+
+// `covered` holds timestamps of valid summaries
+export const findMissingDates = (dates: string[], covered: string[]): string[] => {
+  const coveredDates = new Set(covered.map(timestamp => new Date(timestamp).toISOString().slice(0, 10)));
+  return dates.filter(date => !coveredDates.has(date));
+};
+
+// A retrospective describes the whole day, so it is stamped at its close
+export const retrospectiveTimestamp = (date: string): string =>
+  new Date(parseDate(date).getTime() + DAY_MS - 1000).toISOString();
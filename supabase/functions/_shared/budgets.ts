@@ -0,0 +1,113 @@
+// Generation cost accounting and budgets.
+//
+// Each run's token usage is priced from the table below and stored with the
+// run in `generation_runs`. Daily and monthly limits live in the
+// `generation_budgets` table so the Edge Function and the client enforce the
+// same numbers; `generation_budget_status()` sums the runs against them.
+
+import type { DigestUsage } from './providers.ts';
+
+export interface ModelPricing {
+  // USD per million tokens
+  promptPerMillion: number;
+  completionPerMillion: number;
+  // Flat USD fee per provider call (Perplexity charges for search requests)
+  perRequest?: number;
+}
+
+// Approximate list prices; update them when a provider changes its pricing.
+// Keys are "<provider>:<model>".
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'perplexity:sonar': { promptPerMillion: 1, completionPerMillion: 1, perRequest: 0.005 },
+  'perplexity:sonar-pro': { promptPerMillion: 3, completionPerMillion: 15, perRequest: 0.006 },
+  'openai-compatible:gpt-4o-mini': { promptPerMillion: 0.15, completionPerMillion: 0.6 },
+  'openai-compatible:gpt-4o': { promptPerMillion: 2.5, completionPerMillion: 10 }
+};
+
+// Unknown models are priced like the most expensive default so they cannot
+// slip past the cost budget
+const FALLBACK_PRICING: ModelPricing = MODEL_PRICING['perplexity:sonar-pro'];
+
+export const pricingFor = (provider: string, model: string): ModelPricing => {
+  if (provider === 'stub') {
+    return { promptPerMillion: 0, completionPerMillion: 0 };
+  }
+  return MODEL_PRICING[`${provider}:${model}`] ?? FALLBACK_PRICING;
+};
+
+export const estimateCostUsd = (provider: string, model: string, usage: DigestUsage, requests = 1): number => {
+  const pricing = pricingFor(provider, model);
+  const cost =
+    (usage.promptTokens * pricing.promptPerMillion + usage.completionTokens * pricing.completionPerMillion) / 1_000_000 +
+    requests * (pricing.perRequest ?? 0);
+  // Stored as numeric(10, 6)
+  return Math.round(cost * 1_000_000) / 1_000_000;
+};
+
+export type BudgetPeriod = 'day' | 'month';
+
+// One row of `generation_budget_status()`; a null limit means unlimited
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  token_limit: number | null;
+  cost_limit_usd: number | null;
+  tokens_used: number;
+  cost_used_usd: number;
+  resets_at: string;
+}
+
+export type BudgetRpc = (fn: string) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+
+export class BudgetExceededError extends Error {
+  constructor(message: string, public readonly status: BudgetStatus) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = { day: 'Daily', month: 'Monthly' };
+
+// The first exhausted budget; null when generation may go ahead
+export const exhaustedBudget = (statuses: BudgetStatus[]): BudgetExceededError | null => {
+  for (const status of statuses) {
+    const label = PERIOD_LABELS[status.period];
+    const resets = `resets ${status.resets_at.slice(0, 16).replace('T', ' ')} UTC`;
+
+    if (status.token_limit !== null && status.tokens_used >= status.token_limit) {
+      return new BudgetExceededError(
+        `${label} token budget exhausted: ${status.tokens_used} of ${status.token_limit} tokens used (${resets})`,
+        status
+      );
+    }
+    if (status.cost_limit_usd !== null && status.cost_used_usd >= status.cost_limit_usd) {
+      return new BudgetExceededError(
+        `${label} cost budget exhausted: $${status.cost_used_usd.toFixed(2)} of $${status.cost_limit_usd.toFixed(2)} used (${resets})`,
+        status
+      );
+    }
+  }
+  return null;
+};
+
+// Throws BudgetExceededError when a daily or monthly budget is used up. Call
+// it before every provider call that would be paid for.
+export const assertWithinBudget = async (rpc: BudgetRpc): Promise<void> => {
+  const { data, error } = await rpc('generation_budget_status');
+  if (error) {
+    throw new Error(`generation_budget_status failed: ${error.message}`);
+  }
+
+  // numeric columns may arrive as strings
+  const statuses = ((data ?? []) as BudgetStatus[]).map(status => ({
+    ...status,
+    token_limit: status.token_limit === null ? null : Number(status.token_limit),
+    cost_limit_usd: status.cost_limit_usd === null ? null : Number(status.cost_limit_usd),
+    tokens_used: Number(status.tokens_used),
+    cost_used_usd: Number(status.cost_used_usd)
+  }));
+
+  const exceeded = exhaustedBudget(statuses);
+  if (exceeded) {
+    throw exceeded;
+  }
+};
@@ -0,0 +1,127 @@
+// Citation integrity pass.
+//
+// Maps every [n] marker in a digest to a citation, renumbers citations to be
+// contiguous in order of first appearance and records what did not line up:
+// markers with no source (dropped from the text) and sources the text never
+// references (kept, with `isCited: false`).
+
+import type { StructuredClaim, StructuredDigest } from './structured.ts';
+import type { Citation } from './types.ts';
+
+export interface CitationReport {
+  // [n] markers in the text, counting repeats
+  markerCount: number;
+  // Sources referenced at least once
+  citedCount: number;
+  // Sources returned by the provider
+  sourceCount: number;
+  // Marker numbers with no matching source, as originally numbered
+  dangling: number[];
+  // Sources never referenced, after renumbering
+  unused: number[];
+  // Original number -> contiguous number, for every source
+  renumbered: Record<string, number>;
+}
+
+export interface CitationCheckResult {
+  content: string;
+  citations: Citation[];
+  structured?: StructuredDigest;
+  report: CitationReport;
+}
+
+const CITATION_MARKER = /\[(\d+)\]/g;
+
+const renumberList = (numbers: number[], mapping: Map<number, number>): number[] =>
+  [...new Set(numbers.flatMap(n => (mapping.has(n) ? [mapping.get(n) as number] : [])))];
+
+const renumberClaim = (claim: StructuredClaim, mapping: Map<number, number>): StructuredClaim => ({
+  ...claim,
+  citations: renumberList(claim.citations, mapping)
+});
+
+const renumberStructured = (
+  digest: StructuredDigest,
+  mapping: Map<number, number>
+): StructuredDigest => ({
+  ...digest,
+  sections: digest.sections.map(section => ({
+    ...section,
+    claims: section.claims.map(claim => renumberClaim(claim, mapping))
+  })),
+  tokens: digest.tokens.map(token => ({
+    ...token,
+    citations: renumberList(token.citations, mapping)
+  })),
+  risks: digest.risks.map(claim => renumberClaim(claim, mapping)),
+  opportunities: digest.opportunities.map(claim => renumberClaim(claim, mapping)),
+  sources: digest.sources?.flatMap(source =>
+    mapping.has(source.number) ? [{ ...source, number: mapping.get(source.number) as number }] : []
+  )
+});
+
+export const checkCitations = (
+  content: string,
+  citations: Citation[],
+  structured?: StructuredDigest
+): CitationCheckResult => {
+  const byNumber = new Map(citations.map(c => [c.number, c]));
+  const mapping = new Map<number, number>();
+  const dangling = new Set<number>();
+  let markerCount = 0;
+
+  for (const match of content.matchAll(CITATION_MARKER)) {
+    const number = parseInt(match[1], 10);
+    markerCount++;
+    if (!byNumber.has(number)) {
+      dangling.add(number);
+    } else if (!mapping.has(number)) {
+      mapping.set(number, mapping.size + 1);
+    }
+  }
+
+  const citedCount = mapping.size;
+
+  // Unreferenced sources go after the cited ones, in their original order
+  const unused: number[] = [];
+  [...byNumber.keys()]
+    .sort((a, b) => a - b)
+    .forEach(number => {
+      if (!mapping.has(number)) {
+        mapping.set(number, mapping.size + 1);
+        unused.push(mapping.size);
+      }
+    });
+
+  const renumberedCitations = [...byNumber.values()]
+    .map(citation => ({
+      ...citation,
+      number: mapping.get(citation.number) as number,
+      isCited: mapping.get(citation.number) as number <= citedCount
+    }))
+    .sort((a, b) => a.number - b.number);
+
+  // Dangling markers are dropped along with the space before them
+  const renumberedContent = content.replace(/[ \t]*\[(\d+)\]/g, (marker, n: string) => {
+    const number = mapping.get(parseInt(n, 10));
+    return number !== undefined && number <= citedCount ? marker.replace(n, String(number)) : '';
+  });
+
+  return {
+    content: renumberedContent,
+    citations: renumberedCitations,
+    structured: structured ? renumberStructured(structured, mapping) : undefined,
+    report: {
+      markerCount,
+      citedCount,
+      sourceCount: byNumber.size,
+      dangling: [...dangling].sort((a, b) => a - b),
+      unused,
+      renumbered: Object.fromEntries([...mapping].map(([from, to]) => [String(from), to]))
+    }
+  };
+};
+
+// Share of sources the text actually references
+export const citationCoverage = (report: CitationReport): number =>
+  report.sourceCount > 0 ? report.citedCount / report.sourceCount : 0;
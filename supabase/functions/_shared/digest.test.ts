@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  parseSourcesBlock,
+  processDigestResponse,
+  splitSourcesBlock
+} from './digest.ts';
+import { CORRUPTED_RESPONSES } from './fixtures/corrupted-responses.ts';
+import { DIGEST_FIXTURES } from './fixtures/digest-responses.ts';
+
+const TIMESTAMP = '2025-05-26T12:00:00.000Z';
+
+describe('processDigestResponse', () => {
+  it('takes citations from a trailing "Sources:" block', () => {
+    const digest = processDigestResponse(DIGEST_FIXTURES['sources-block'].text, [], { timestamp: TIMESTAMP });
+
+    expect(digest.content).not.toMatch(/Sources:/);
+    expect(digest.content).not.toMatch(/https?:\/\//);
+    // Renumbered in order of first appearance, so compared unordered
+    expect(digest.citations.map(c => c.url).sort()).toEqual([
+      'https://blockchain.news/flashnews/crypto-market-sentiment-shifts-milk-road-signals-possible-market-rebound-in-may-2025',
+      'https://investinghaven.com/crypto-forecasts/15-cryptocurrency-forecasts-2025/',
+      'https://www.binance.com/en/blog/research/binance-research-key-trends-in-crypto--may-2025-3869497872430359035',
+      'https://www.globenewswire.com/news-release/2025/05/07/3076321/0/en/Cryptocurrencies-Strategic-Intelligence-Report-2025-Many-Expect-a-Rally-to-New-All-time-Highs-Driven-by-Regulatory-Institutional-and-Cyclical-Factors.html'
+    ]);
+    expect(digest.citations.map(c => c.title).sort()).toEqual([
+      'binance.com',
+      'blockchain.news',
+      'globenewswire.com',
+      'investinghaven.com'
+    ]);
+    expect(digest.citationReport?.dangling).toEqual([]);
+    expect(digest.timestamp).toBe(TIMESTAMP);
+  });
+
+  it('rewrites inline [n](url) links to plain markers', () => {
+    const digest = processDigestResponse(DIGEST_FIXTURES['inline-links'].text);
+
+    expect(digest.content).not.toMatch(/\]\s?\(https?:/);
+    expect(digest.content).toMatch(/hedge against uncertainty\[1\]/);
+    expect(digest.citations.map(c => [c.number, c.url])).toEqual([
+      [1, 'https://www.binance.com/en/blog/research/binance-research-key-trends-in-crypto--may-2025-3869497872430359035'],
+      [2, 'https://www.globenewswire.com/news-release/2025/05/07/3076321/0/en/Cryptocurrencies-Strategic-Intelligence-Report-2025-Many-Expect-a-Rally-to-New-All-time-Highs-Driven-by-Regulatory-Institutional-and-Cyclical-Factors.html'],
+      [3, 'https://www.avatrade.com/blog/cryptocurrencies/market-sentiment-affects-crypto']
+    ]);
+    expect(digest.citationReport?.renumbered).toEqual({ 1: 1, 2: 2, 5: 3 });
+  });
+
+  it('reads inline JSON citations and strips them from the text', () => {
+    const [first, second] = DIGEST_FIXTURES['api-sources'].sources;
+    const text = DIGEST_FIXTURES['api-sources'].text
+      .replace('macro risk could flip the script fast[1].', `macro risk could flip the script fast["url":"${first.url}"].`)
+      .replace('a real possibility[2][3].', `a real possibility['url':'${second.url}'].`)
+      .replace(/\[\d+\]/g, '');
+
+    const digest = processDigestResponse(text);
+
+    expect(digest.content).not.toMatch(/url/);
+    expect(digest.citations.map(c => [c.number, c.url])).toEqual([
+      [1, first.url],
+      [2, second.url]
+    ]);
+  });
+
+  it('prefers structured API sources over anything in the text', () => {
+    const { text, sources } = DIGEST_FIXTURES['api-sources'];
+    const digest = processDigestResponse(text, sources);
+
+    expect(digest.citations.map(c => c.title)).toEqual(sources.map(s => s.title));
+  });
+
+  it('strips a leading SENTIMENT: line and records the call', () => {
+    const digest = processDigestResponse(`SENTIMENT: BEARISH\n\n${DIGEST_FIXTURES['sources-block'].text}`);
+
+    expect(digest.explicitSentiment).toBe('down');
+    expect(digest.content).not.toMatch(/SENTIMENT/);
+    expect(digest.content.startsWith('The cryptocurrency market is flashing signals')).toBe(true);
+  });
+
+  it('leaves the sentiment unset without a SENTIMENT: line', () => {
+    expect(processDigestResponse(DIGEST_FIXTURES['sources-block'].text).explicitSentiment).toBeUndefined();
+  });
+
+  it.each(Object.keys(CORRUPTED_RESPONSES))('rejects stored row %s, which has no linkable source', id => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => processDigestResponse(CORRUPTED_RESPONSES[id])).toThrow(
+      'Invalid response from provider: citations are empty or corrupted'
+    );
+    expect(logged).toHaveBeenCalledWith(
+      "Found citation references but couldn't extract actual sources",
+      expect.any(Array)
+    );
+    logged.mockRestore();
+  });
+});
+
+describe('splitSourcesBlock', () => {
+  it('splits at a header on its own line', () => {
+    const { body, block } = splitSourcesBlock(CORRUPTED_RESPONSES.de4a6175);
+
+    expect(body.endsWith('until meme coin sentiment improves—avoid unless chasing social-driven pops.')).toBe(true);
+    expect(block?.split('\n')[0].trim()).toBe('[1] Kaiko Research—BTC ETF flows, miner selling');
+  });
+
+  it('leaves prose mentioning sources alone', () => {
+    const content = 'Traders cited multiple sources: on-chain flows and ETF data.\nSources say the rally holds.';
+
+    expect(splitSourcesBlock(content)).toEqual({ body: content, block: null });
+  });
+});
+
+describe('parseSourcesBlock', () => {
+  it('drops entries that name an outlet without a URL', () => {
+    const { block: numbered } = splitSourcesBlock(CORRUPTED_RESPONSES.de4a6175);
+    const { block: unnumbered } = splitSourcesBlock(CORRUPTED_RESPONSES['125bdfff']);
+
+    expect(parseSourcesBlock(numbered ?? '')).toEqual([]);
+    expect(parseSourcesBlock(unnumbered ?? '')).toEqual([]);
+  });
+
+  it('keeps the given numbers and titles', () => {
+    const citations = parseSourcesBlock(
+      '[2] CoinDesk - https://www.coindesk.com/markets/btc\n- [Reuters](https://www.reuters.com/crypto)'
+    );
+
+    expect(citations.map(c => [c.number, c.title, c.url])).toEqual([
+      [2, 'CoinDesk', 'https://www.coindesk.com/markets/btc'],
+      [3, 'Reuters', 'https://www.reuters.com/crypto']
+    ]);
+  });
+});
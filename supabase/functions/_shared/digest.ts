@@ -0,0 +1,303 @@
+// Isomorphic digest-processing pipeline.
+//
+// Turns raw model output (plus any structured sources the provider returned)
+// into the `NewsDigest` shape stored in `daily_summaries`. Both the browser
+// client and the Edge Function call this so every stored row has the same
+// shape regardless of which path generated it.
+
+import { checkCitations } from './citations.ts';
+import { parseStructuredDigest, structuredToContent, type StructuredDigest } from './structured.ts';
+import type { Citation, MarketSentiment, NewsDigest } from './types.ts';
+
+export interface DigestSource {
+  url?: string;
+  title?: string;
+}
+
+export interface ProcessDigestOptions {
+  // Override the generation timestamp (defaults to now)
+  timestamp?: string;
+  // Prompt template id recorded with the digest
+  promptVersion?: string;
+}
+
+const SENTIMENT_LINE = /^SENTIMENT:\s*(BULLISH|BEARISH|NEUTRAL)\s*\n*/i;
+const SOURCES_HEADER = /^(?:Sources?|Citations?|References?)\s*(:?)\s*(.*)$/i;
+const INLINE_LINKED_CITATION = /\[(\d+)\]\s?\((https?:\/\/[^\s)]+)\)/g;
+const INLINE_JSON_CITATION = /\[\s*(?:"url"\s*:\s*"([^"]+)"|'url'\s*:\s*'([^']+)')\s*\]/g;
+const URL_PATTERN = /(?:(?:https?:)?\/\/)?[\w-]+(?:\.[\w-]+)+[^\s)\]]*/;
+
+export const getDomainName = (url: string): string => {
+  try {
+    const hostname = new URL(url).hostname;
+    const parts = hostname.replace(/^www\./, '').split('.');
+
+    if (parts.length >= 2) {
+      if (parts[0] === 'markets' && parts[1] === 'businessinsider') {
+        return `businessinsider.${parts[parts.length - 1]}`;
+      }
+
+      return `${parts[parts.length - 2]}.${parts[parts.length - 1]}`;
+    }
+
+    return hostname;
+  } catch {
+    return url;
+  }
+};
+
+export const getFavicon = (url: string): string => {
+  try {
+    const domain = new URL(url).hostname;
+    // Use Google's favicon service
+    return `https://www.google.com/s2/favicons?domain=${domain}`;
+  } catch {
+    return '';
+  }
+};
+
+const normalizeUrl = (url: string): string => {
+  const trimmed = url.trim().replace(/[.,;]+$/, '');
+  return trimmed.startsWith('http') ? trimmed : `https://${trimmed.replace(/^\/\//, '')}`;
+};
+
+const buildCitation = (number: number, url: string, title?: string): Citation => {
+  const fullUrl = normalizeUrl(url);
+  const cleanTitle = title?.trim();
+  return {
+    number,
+    title: cleanTitle && cleanTitle !== `Source ${number}` ? cleanTitle : getDomainName(fullUrl),
+    url: fullUrl,
+    isCited: true,
+    favicon: getFavicon(fullUrl)
+  };
+};
+
+// "bullish" / "BEARISH" / "neutral" as stated by the provider
+export const sentimentFromLabel = (label: string): MarketSentiment => {
+  const value = label.toLowerCase();
+  return value === 'bullish' ? 'up' : value === 'bearish' ? 'down' : 'neutral';
+};
+
+// Pull a leading "SENTIMENT: BULLISH" line off the response
+export const extractExplicitSentiment = (
+  content: string
+): { content: string; explicitSentiment?: MarketSentiment } => {
+  const match = content.match(SENTIMENT_LINE);
+  if (!match) return { content };
+
+  return {
+    content: content.replace(SENTIMENT_LINE, '').trim(),
+    explicitSentiment: sentimentFromLabel(match[1])
+  };
+};
+
+// Split off a trailing "Sources:" / "Citations:" block. The header must start
+// its own line so prose like "from multiple sources: ..." is left alone.
+export const splitSourcesBlock = (content: string): { body: string; block: string | null } => {
+  const lines = content.split('\n');
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].replace(/\*\*/g, '').replace(/^#+\s*/, '').trim();
+    const match = line.match(SOURCES_HEADER);
+    if (!match) continue;
+
+    const [, colon, rest] = match;
+    // A bare word with trailing text ("Sources say...") is prose, not a header
+    if (!colon && rest) continue;
+
+    return {
+      body: lines.slice(0, i).join('\n').trim(),
+      block: [rest, ...lines.slice(i + 1)].join('\n').trim()
+    };
+  }
+
+  return { body: content, block: null };
+};
+
+// Parse lines like "1. https://x.com", "[2] Title - https://y.com" or
+// "[3] Title—description". Lines without a URL cannot be linked and are dropped.
+export const parseSourcesBlock = (block: string): Citation[] => {
+  const citations: Citation[] = [];
+  let nextNumber = 1;
+
+  for (const rawLine of block.split('\n')) {
+    const line = rawLine.replace(/^[-*•]\s+/, '').trim();
+    if (!line) continue;
+
+    const numbered = line.match(/^\[?(\d+)\]?[.:)]?\s+(.*)$/);
+    const number = numbered ? parseInt(numbered[1], 10) : nextNumber;
+    const text = numbered ? numbered[2] : line;
+
+    const markdownLink = text.match(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/);
+    const urlMatch = markdownLink ? null : text.match(URL_PATTERN);
+    const url = markdownLink ? markdownLink[2] : urlMatch?.[0];
+    if (!url || !/\.[a-z]{2,}/i.test(url)) continue;
+
+    const title = markdownLink
+      ? markdownLink[1]
+      : text.replace(url, '').replace(/^[-–—:\s(]+|[-–—:\s)]+$/g, '');
+
+    citations.push(buildCitation(number, url, title));
+    nextNumber = number + 1;
+  }
+
+  return citations;
+};
+
+// Handle "[1](https://...)" and "[1] (https://...)" markers, rewriting them
+// to plain "[1]" so the renderer can link them against the citation list.
+export const extractInlineLinkedCitations = (
+  content: string
+): { content: string; citations: Citation[] } => {
+  const byNumber = new Map<number, Citation>();
+
+  for (const match of content.matchAll(INLINE_LINKED_CITATION)) {
+    const number = parseInt(match[1], 10);
+    if (!byNumber.has(number)) {
+      byNumber.set(number, buildCitation(number, match[2]));
+    }
+  }
+
+  return {
+    content: content.replace(INLINE_LINKED_CITATION, '[$1]'),
+    citations: [...byNumber.values()]
+  };
+};
+
+// Handle the '["url":"https://..."]' format some responses use
+export const extractInlineJsonCitations = (
+  content: string
+): { content: string; citations: Citation[] } => {
+  const citations: Citation[] = [];
+  let citationNumber = 1;
+
+  for (const match of content.matchAll(INLINE_JSON_CITATION)) {
+    const url = match[1] || match[2];
+    if (url) {
+      citations.push(buildCitation(citationNumber++, url));
+    }
+  }
+
+  return {
+    content: content.replace(INLINE_JSON_CITATION, ''),
+    citations
+  };
+};
+
+// Strip markdown the renderer does not understand
+export const cleanDigestMarkdown = (content: string): string =>
+  content
+    .replace(/\*\*/g, '') // Remove bold formatting
+    .replace(/^#{1,6}\s+/gm, '') // Remove headings
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '$1') // Unwrap non-numeric links
+    .replace(/^\d+\.\s+/gm, '') // Remove numbered list formatting
+    .replace(/[ \t]+\n/g, '\n') // Drop trailing whitespace
+    .replace(/\n+/g, '\n\n') // Normalize paragraph breaks
+    .trim();
+
+export const extractCitationNumbers = (content: string): number[] => {
+  const references = content.match(/\[(\d+)\]/g) || [];
+  return [...new Set(references.map(ref => parseInt(ref.slice(1, -1), 10)).filter(num => num > 0))];
+};
+
+export const processDigestResponse = (
+  rawContent: string,
+  apiSources: DigestSource[] = [],
+  options: ProcessDigestOptions = {}
+): NewsDigest => {
+  const { content: withoutSentiment, explicitSentiment } = extractExplicitSentiment(rawContent.trim());
+  const { body, block } = splitSourcesBlock(withoutSentiment);
+  let processedContent = body;
+  let citations: Citation[] = [];
+
+  // Structured sources from the provider always win
+  if (apiSources && apiSources.length > 0) {
+    // Keep the provider's numbering even if some entries lack a URL
+    citations = apiSources.flatMap((source, index) =>
+      source.url ? [buildCitation(index + 1, source.url, source.title)] : []
+    );
+  }
+
+  const inline = extractInlineLinkedCitations(processedContent);
+  processedContent = inline.content;
+  if (citations.length === 0) {
+    citations = inline.citations;
+  }
+
+  if (citations.length === 0 && block) {
+    citations = parseSourcesBlock(block);
+  }
+
+  const inlineJson = extractInlineJsonCitations(processedContent);
+  processedContent = inlineJson.content;
+  if (citations.length === 0) {
+    citations = inlineJson.citations;
+  }
+
+  const referencedNumbers = extractCitationNumbers(processedContent);
+  if (citations.length === 0 && referencedNumbers.length > 0) {
+    console.error("Found citation references but couldn't extract actual sources", referencedNumbers);
+  }
+
+  // Validate that we have citations - empty citations indicate corrupted response
+  if (citations.length === 0) {
+    throw new Error('Invalid response from provider: citations are empty or corrupted');
+  }
+
+  const uniqueCitations = [...new Map(citations.map(c => [c.number, c])).values()];
+  const checked = checkCitations(cleanDigestMarkdown(processedContent), uniqueCitations);
+
+  return {
+    content: checked.content,
+    citations: checked.citations,
+    timestamp: options.timestamp ?? new Date().toISOString(),
+    explicitSentiment,
+    promptVersion: options.promptVersion,
+    citationReport: checked.report
+  };
+};
+
+export class StructuredDigestError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Structured digest failed validation: ${errors.join('; ')}`);
+    this.name = 'StructuredDigestError';
+  }
+}
+
+// Structured-mode counterpart of processDigestResponse. Throws
+// StructuredDigestError when the document does not match the schema.
+export const processStructuredDigestResponse = (
+  rawContent: string,
+  apiSources: DigestSource[] = [],
+  options: ProcessDigestOptions = {}
+): NewsDigest => {
+  const parsed = parseStructuredDigest(rawContent);
+  if (!parsed.ok) {
+    throw new StructuredDigestError(parsed.errors);
+  }
+
+  const structured = parsed.digest;
+  const sources: Citation[] = apiSources.length > 0
+    ? apiSources.flatMap((source, index) =>
+        source.url ? [buildCitation(index + 1, source.url, source.title)] : []
+      )
+    : (structured.sources ?? []).map(source => buildCitation(source.number, source.url, source.title));
+
+  if (sources.length === 0) {
+    throw new StructuredDigestError(['no sources returned with structured digest']);
+  }
+
+  const checked = checkCitations(structuredToContent(structured), sources, structured);
+  const renumbered = checked.structured as StructuredDigest;
+
+  return {
+    content: structuredToContent(renumbered),
+    citations: checked.citations,
+    timestamp: options.timestamp ?? new Date().toISOString(),
+    explicitSentiment: sentimentFromLabel(structured.sentiment.label),
+    promptVersion: options.promptVersion,
+    structured: renumbered,
+    citationReport: checked.report
+  };
+};
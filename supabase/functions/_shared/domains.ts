@@ -0,0 +1,14 @@
+// Built-in crypto news sources for search-backed providers. The live list is
+// the `news_sources` table; this one seeds it and stands in when it cannot be read
+export const DOMAIN_FILTER = [
+  'coinmetro.com',
+  'reuters.com',
+  'coingecko.com',
+  'coindesk.com',
+  'cointelegraph.com',
+  'x.com',
+  'cnbc.com',
+  'fortune.com',
+  'reddit.com',
+  'finance.yahoo.com'
+];
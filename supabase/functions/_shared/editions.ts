@@ -0,0 +1,71 @@
+// Trading-session editions.
+//
+// Each edition is generated once per UTC day, at its session open. The cron
+// schedules in the `schedule_edition_summaries` migration must match
+// `startUtc` below.
+
+export type EditionId = 'asia-open' | 'eu-open' | 'us-open';
+
+export interface Edition {
+  id: EditionId;
+  label: string;
+  // Session open as "HH:MM" UTC
+  startUtc: string;
+  // Extra prompt instructions for this session
+  emphasis: string;
+}
+
+export const EDITIONS: Edition[] = [
+  {
+    id: 'asia-open',
+    label: 'Asia Open',
+    startUtc: '00:00',
+    emphasis: 'This is the Asia open edition: lead with what moved overnight during the US session and what matters for traders in Tokyo, Seoul, Hong Kong and Singapore, including Asian exchange flows and regional regulatory news.'
+  },
+  {
+    id: 'eu-open',
+    label: 'EU Open',
+    startUtc: '07:00',
+    emphasis: 'This is the EU open edition: lead with how the Asian session traded and what matters for traders in London and Frankfurt, including European regulation, ETP flows and the macro calendar for the day.'
+  },
+  {
+    id: 'us-open',
+    label: 'US Open',
+    startUtc: '13:30',
+    emphasis: 'This is the US open edition: lead with what matters for the New York session, including US ETF flows, equities and macro data releases, and how Europe has traded so far.'
+  }
+];
+
+export const isEditionId = (value: unknown): value is EditionId =>
+  EDITIONS.some(edition => edition.id === value);
+
+export const getEdition = (id: EditionId): Edition =>
+  EDITIONS.find(edition => edition.id === id) as Edition;
+
+const startMinutes = (edition: Edition): number => {
+  const [hours, minutes] = edition.startUtc.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Editions whose session has opened on `now`'s UTC day, in schedule order
+export const openedEditions = (now: Date = new Date()): Edition[] => {
+  const minutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+  return EDITIONS.filter(edition => startMinutes(edition) <= minutes);
+};
+
+// The most recently opened edition
+export const currentEdition = (now: Date = new Date()): Edition => {
+  const opened = openedEditions(now);
+  return opened.length > 0 ? opened[opened.length - 1] : EDITIONS[0];
+};
+
+// Editions are keyed by UTC date: [start, end) of the day containing `now`
+export const editionDay = (now: Date = new Date()): { date: string; start: string; end: string } => {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return {
+    date: start.toISOString().slice(0, 10),
+    start: start.toISOString(),
+    end: end.toISOString()
+  };
+};
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { processDigestResponse } from './digest.ts';
+import { assessSourceFreshness, createFixtureFetcher, enrichDigest } from './enrichment.ts';
+import { DIGEST_FIXTURES } from './fixtures/digest-responses.ts';
+import type { NewsDigest } from './types.ts';
+
+const { text, sources } = DIGEST_FIXTURES['api-sources'];
+
+const digestAt = (timestamp: string): NewsDigest => processDigestResponse(text, sources, { timestamp });
+
+describe('enrichDigest with the fixture fetcher', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reads page metadata for every citation', async () => {
+    const { citations } = await enrichDigest(digestAt('2025-05-26T12:00:00.000Z'), createFixtureFetcher());
+
+    expect(citations.map(({ canonicalUrl, publisher, publishedAt }) => ({ canonicalUrl, publisher, publishedAt }))).toEqual([
+      {
+        canonicalUrl: 'https://www.coindesk.com/markets/2025/05/26/bitcoin-jumps-above-65k/',
+        publisher: 'CoinDesk',
+        publishedAt: '2025-05-26T09:41:00.000Z'
+      },
+      {
+        canonicalUrl: 'https://www.reuters.com/technology/crypto-markets-decouple-from-equities-2025-05-26/',
+        publisher: 'Reuters',
+        publishedAt: '2025-05-26T14:05:00.000Z'
+      },
+      {
+        // Followed the redirect
+        canonicalUrl: 'https://cointelegraph.com/news/tariff-pause-fuels-crypto-rally',
+        publisher: 'Cointelegraph',
+        publishedAt: '2025-05-25T18:30:00.000Z'
+      },
+      {
+        canonicalUrl: 'https://www.coingecko.com/en/categories/layer-1',
+        publisher: 'CoinGecko',
+        publishedAt: undefined
+      }
+    ]);
+    expect(citations[2].description).toBe('Markets rallied after the 90-day tariff pause & a softer dollar.');
+    expect(citations.every(citation => citation.enrichedAt)).toBe(true);
+  });
+
+  it("keeps the provider's titles and replaces guessed ones", async () => {
+    const guessed = processDigestResponse(text, sources.map(({ url }) => ({ url })), {
+      timestamp: '2025-05-26T12:00:00.000Z'
+    });
+    const provided = await enrichDigest(digestAt('2025-05-26T12:00:00.000Z'), createFixtureFetcher());
+    const replaced = await enrichDigest(guessed, createFixtureFetcher());
+
+    expect(provided.citations.map(citation => citation.title)).toEqual(sources.map(source => source.title));
+    expect(guessed.citations[0].title).toBe('coindesk.com');
+    expect(replaced.citations[0].title).toBe('Bitcoin Jumps Above $65K as Futures Open Interest Climbs');
+  });
+
+  it('leaves citations the fetcher cannot resolve unchanged', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const digest = digestAt('2025-05-26T12:00:00.000Z');
+
+    const { citations } = await enrichDigest(digest, createFixtureFetcher({}));
+
+    expect(citations).toEqual(digest.citations);
+    expect(warn).toHaveBeenCalledTimes(digest.citations.length);
+  });
+
+  it('does not flag a digest written alongside its sources', async () => {
+    const { sourceFreshness } = await enrichDigest(digestAt('2025-05-26T12:00:00.000Z'), createFixtureFetcher());
+
+    // The undated data page is left out
+    expect(sourceFreshness).toEqual({ datedSources: 3, staleSources: 0, maxAgeDays: 3, isStale: false });
+  });
+
+  it('flags a digest whose dated sources are mostly stale', async () => {
+    const { sourceFreshness } = await enrichDigest(digestAt('2025-06-10T12:00:00.000Z'), createFixtureFetcher());
+
+    expect(sourceFreshness).toEqual({ datedSources: 3, staleSources: 3, maxAgeDays: 3, isStale: true });
+  });
+
+  it('flags only above the stale share', async () => {
+    const { citations } = await enrichDigest(digestAt('2025-05-26T12:00:00.000Z'), createFixtureFetcher());
+
+    // Only the May 25 article is older than a day on the 27th at 09:00
+    const oneStale = assessSourceFreshness(citations, '2025-05-27T09:00:00.000Z', { maxAgeDays: 1, staleShare: 0.5 });
+    const strict = assessSourceFreshness(citations, '2025-05-27T09:00:00.000Z', { maxAgeDays: 1, staleShare: 0.25 });
+
+    expect(oneStale).toMatchObject({ staleSources: 1, isStale: false });
+    expect(strict).toMatchObject({ staleSources: 1, isStale: true });
+  });
+
+  it('never flags a digest with no dated sources', () => {
+    expect(assessSourceFreshness([], '2025-06-10T12:00:00.000Z').isStale).toBe(false);
+  });
+});
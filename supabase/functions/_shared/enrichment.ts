@@ -0,0 +1,293 @@
+// Citation metadata enrichment.
+//
+// Resolves each citation URL through a pluggable fetcher and reads the page's
+// head metadata: canonical URL, title, publisher, publish date and
+// description. Publish dates then tell whether a digest leans on old news.
+// Fetchers only depend on `fetch`, so enrichment runs in the browser and in
+// the Edge Function runtime; the fixture fetcher needs no network at all.
+
+import { getDomainName } from './digest.ts';
+import { CITATION_PAGE_FIXTURES } from './fixtures/citation-pages.ts';
+import type { Citation, NewsDigest } from './types.ts';
+
+export interface FetchedPage {
+  // Final URL after redirects
+  url: string;
+  html: string;
+}
+
+export interface CitationFetcher {
+  name: string;
+  fetch(url: string): Promise<FetchedPage>;
+}
+
+export type CitationFetcherKind = 'http' | 'fixture' | 'none';
+
+export interface PageMetadata {
+  canonicalUrl?: string;
+  title?: string;
+  publisher?: string;
+  publishedAt?: string;
+  description?: string;
+}
+
+export interface SourceFreshness {
+  // Citations whose publish date is known
+  datedSources: number;
+  // Dated citations older than `maxAgeDays` when the digest was written
+  staleSources: number;
+  maxAgeDays: number;
+  // More than `staleShare` of the dated citations are stale
+  isStale: boolean;
+}
+
+export interface FreshnessThresholds {
+  maxAgeDays: number;
+  // Share of dated sources (0-1) above which the digest is flagged
+  staleShare: number;
+}
+
+export const DEFAULT_FRESHNESS_THRESHOLDS: FreshnessThresholds = {
+  maxAgeDays: 3,
+  staleShare: 0.5
+};
+
+const DEFAULT_TIMEOUT_MS = 8000;
+// Metadata lives in the head; there is no need to read whole articles
+const MAX_HTML_LENGTH = 256 * 1024;
+
+export const createHttpFetcher = (options: { timeoutMs?: number } = {}): CitationFetcher => ({
+  name: 'http',
+  async fetch(url) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        redirect: 'follow',
+        headers: { Accept: 'text/html' },
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`http: ${url} returned ${response.status}`);
+      }
+
+      const html = await response.text();
+      return { url: response.url || url, html: html.slice(0, MAX_HTML_LENGTH) };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+});
+
+export const createFixtureFetcher = (
+  pages: Record<string, FetchedPage> = CITATION_PAGE_FIXTURES
+): CitationFetcher => ({
+  name: 'fixture',
+  async fetch(url) {
+    const page = pages[url];
+    if (!page) {
+      throw new Error(`fixture: no page for ${url}`);
+    }
+    return { ...page };
+  }
+});
+
+// null for 'none': citations are stored as the provider returned them
+export const createCitationFetcher = (kind: CitationFetcherKind): CitationFetcher | null => {
+  switch (kind) {
+    case 'http':
+      return createHttpFetcher();
+    case 'fixture':
+      return createFixtureFetcher();
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown citation fetcher: ${kind as string}`);
+  }
+};
+
+export const isCitationFetcherKind = (value: string | undefined): value is CitationFetcherKind =>
+  value === 'http' || value === 'fixture' || value === 'none';
+
+// Enrichment configured from CITATION_FETCHER and STALE_SOURCE_* variables.
+// Edge Functions pass `Deno.env.get`, as for the digest provider.
+export const citationEnrichmentFromEnv = (
+  getEnv: (key: string) => string | undefined
+): { fetcher: CitationFetcher | null; freshness: FreshnessThresholds } => {
+  const kind = getEnv('CITATION_FETCHER') ?? 'http';
+  if (!isCitationFetcherKind(kind)) {
+    throw new Error(`Unknown citation fetcher: ${kind}`);
+  }
+
+  const maxAgeDays = Number(getEnv('STALE_SOURCE_MAX_AGE_DAYS'));
+  const staleShare = Number(getEnv('STALE_SOURCE_SHARE'));
+
+  return {
+    fetcher: createCitationFetcher(kind),
+    freshness: {
+      maxAgeDays: maxAgeDays > 0 ? maxAgeDays : DEFAULT_FRESHNESS_THRESHOLDS.maxAgeDays,
+      staleShare: staleShare > 0 && staleShare <= 1 ? staleShare : DEFAULT_FRESHNESS_THRESHOLDS.staleShare
+    }
+  };
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+};
+
+const toIsoDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const resolveUrl = (href: string | undefined, base: string): string | undefined => {
+  if (!href) return undefined;
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+// NewsArticle-like objects from JSON-LD blocks, including `@graph` members
+const jsonLdObjects = (html: string): Record<string, unknown>[] => {
+  const objects: Record<string, unknown>[] = [];
+  const blocks = html.matchAll(/<script[^>]+type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+
+  for (const block of blocks) {
+    try {
+      const parsed = JSON.parse(block[1]);
+      const items = Array.isArray(parsed) ? parsed : [parsed, ...(Array.isArray(parsed?.['@graph']) ? parsed['@graph'] : [])];
+      objects.push(...items.filter(item => item && typeof item === 'object'));
+    } catch {
+      // Malformed JSON-LD is common; the meta tags usually cover it
+    }
+  }
+  return objects;
+};
+
+export const parsePageMetadata = (html: string, pageUrl: string): PageMetadata => {
+  const meta: Record<string, string> = {};
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+    const key = (attributes.property ?? attributes.name ?? attributes.itemprop)?.toLowerCase();
+    if (key && attributes.content && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const canonicalTag = [...html.matchAll(/<link\b[^>]*>/gi)]
+    .map(match => parseAttributes(match[0]))
+    .find(attributes => attributes.rel?.toLowerCase() === 'canonical');
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const timeTag = html.match(/<time\b[^>]*\bdatetime\s*=\s*["']([^"']+)["']/i)?.[1];
+
+  const article = jsonLdObjects(html).find(item => 'datePublished' in item || 'headline' in item);
+  const articlePublisher = article?.publisher as { name?: unknown } | undefined;
+
+  return {
+    canonicalUrl: resolveUrl(canonicalTag?.href ?? meta['og:url'], pageUrl) ?? pageUrl,
+    title: meta['og:title'] ?? meta['twitter:title'] ?? (titleTag ? decodeEntities(titleTag) : undefined),
+    publisher: meta['og:site_name'] ?? meta['application-name'] ??
+      (typeof articlePublisher?.name === 'string' ? articlePublisher.name : undefined),
+    publishedAt: toIsoDate(meta['article:published_time']) ?? toIsoDate(meta['datepublished']) ??
+      toIsoDate(article?.datePublished) ?? toIsoDate(meta['parsely-pub-date']) ??
+      toIsoDate(meta['date']) ?? toIsoDate(timeTag),
+    description: meta['og:description'] ?? meta['description'] ?? meta['twitter:description']
+  };
+};
+
+// Merges page metadata into a citation. The provider's title is kept unless
+// it was only the domain-name guess made when the citation was extracted.
+const applyMetadata = (citation: Citation, metadata: PageMetadata, enrichedAt: string): Citation => {
+  const guessedTitle = !citation.title || citation.title === getDomainName(citation.url);
+
+  return {
+    ...citation,
+    title: guessedTitle && metadata.title ? metadata.title : citation.title,
+    canonicalUrl: metadata.canonicalUrl,
+    publisher: metadata.publisher,
+    publishedAt: metadata.publishedAt,
+    description: metadata.description,
+    enrichedAt
+  };
+};
+
+// Citations that fail to resolve are returned unchanged
+export const enrichCitations = async (
+  citations: Citation[],
+  fetcher: CitationFetcher,
+  options: { concurrency?: number } = {}
+): Promise<Citation[]> => {
+  const { concurrency = 4 } = options;
+  const enriched = [...citations];
+  const enrichedAt = new Date().toISOString();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < citations.length) {
+      const index = next++;
+      const citation = citations[index];
+      try {
+        const page = await fetcher.fetch(citation.url);
+        enriched[index] = applyMetadata(citation, parsePageMetadata(page.html, page.url), enrichedAt);
+      } catch (err) {
+        console.warn(`Could not enrich citation ${citation.number} (${citation.url}):`, err instanceof Error ? err.message : err);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, citations.length) }, worker));
+  return enriched;
+};
+
+export const assessSourceFreshness = (
+  citations: Citation[],
+  writtenAt: string,
+  thresholds: FreshnessThresholds = DEFAULT_FRESHNESS_THRESHOLDS
+): SourceFreshness => {
+  const reference = new Date(writtenAt).getTime();
+  const cutoff = reference - thresholds.maxAgeDays * 24 * 60 * 60 * 1000;
+  const dated = citations.filter(citation => citation.publishedAt);
+  const stale = dated.filter(citation => new Date(citation.publishedAt as string).getTime() < cutoff);
+
+  return {
+    datedSources: dated.length,
+    staleSources: stale.length,
+    maxAgeDays: thresholds.maxAgeDays,
+    isStale: dated.length > 0 && stale.length / dated.length > thresholds.staleShare
+  };
+};
+
+export const enrichDigest = async (
+  digest: NewsDigest,
+  fetcher: CitationFetcher,
+  thresholds: FreshnessThresholds = DEFAULT_FRESHNESS_THRESHOLDS
+): Promise<NewsDigest> => {
+  const citations = await enrichCitations(digest.citations, fetcher);
+  return {
+    ...digest,
+    citations,
+    // Measured against the digest's own timestamp, so retrospectives are
+    // judged by the day they describe
+    sourceFreshness: assessSourceFreshness(citations, digest.timestamp, thresholds)
+  };
+};
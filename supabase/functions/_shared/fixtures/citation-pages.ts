@@ -0,0 +1,51 @@
+// Article pages for the source URLs in digest-responses.ts, trimmed to the
+// head metadata the enrichment step reads. They back the fixture fetcher so
+// enrichment can run without network access.
+
+import type { FetchedPage } from '../enrichment.ts';
+
+export const CITATION_PAGE_FIXTURES: Record<string, FetchedPage> = {
+  // Open Graph and article:published_time
+  'https://www.coindesk.com/markets/2025/05/26/bitcoin-jumps-above-65k': {
+    url: 'https://www.coindesk.com/markets/2025/05/26/bitcoin-jumps-above-65k/',
+    html: `<!DOCTYPE html><html><head>
+      <title>Bitcoin Jumps Above $65K as Futures Open Interest Climbs - CoinDesk</title>
+      <link rel="canonical" href="https://www.coindesk.com/markets/2025/05/26/bitcoin-jumps-above-65k/">
+      <meta property="og:title" content="Bitcoin Jumps Above $65K as Futures Open Interest Climbs">
+      <meta property="og:site_name" content="CoinDesk">
+      <meta property="og:description" content="BTC broke through resistance as open interest on CME futures hit a monthly high.">
+      <meta property="article:published_time" content="2025-05-26T09:41:00.000Z">
+    </head><body></body></html>`
+  },
+
+  // JSON-LD NewsArticle, attributes in a different order
+  'https://www.reuters.com/technology/crypto-markets-decouple-from-equities-2025-05-26/': {
+    url: 'https://www.reuters.com/technology/crypto-markets-decouple-from-equities-2025-05-26/',
+    html: `<!DOCTYPE html><html><head>
+      <title>Crypto markets shrug off equity turbulence | Reuters</title>
+      <meta content="Crypto markets shrug off equity turbulence" property="og:title">
+      <meta name="description" content="Bitcoin and ether held gains on Monday while stock futures slipped on tariff worries.">
+      <script type="application/ld+json">{"@context":"https://schema.org","@type":"NewsArticle","headline":"Crypto markets shrug off equity turbulence","datePublished":"2025-05-26T14:05:00Z","publisher":{"@type":"Organization","name":"Reuters"}}</script>
+    </head><body></body></html>`
+  },
+
+  // Redirected to a canonical URL; only a <time> element carries the date
+  'https://cointelegraph.com/news/tariff-pause-crypto-rally': {
+    url: 'https://cointelegraph.com/news/tariff-pause-fuels-crypto-rally',
+    html: `<!DOCTYPE html><html><head>
+      <title>Tariff pause fuels crypto rally</title>
+      <meta name="application-name" content="Cointelegraph">
+      <meta property="og:description" content="Markets rallied after the 90-day tariff pause &amp; a softer dollar.">
+    </head><body><article><time datetime="2025-05-25T18:30:00Z">May 25, 2025</time></article></body></html>`
+  },
+
+  // Evergreen data page with no publish date
+  'https://www.coingecko.com/en/categories/layer-1': {
+    url: 'https://www.coingecko.com/en/categories/layer-1',
+    html: `<!DOCTYPE html><html><head>
+      <title>Top Layer 1 (L1) Coins by Market Cap | CoinGecko</title>
+      <meta property="og:site_name" content="CoinGecko">
+      <meta name="description" content="View the top Layer 1 coins by market capitalization.">
+    </head><body></body></html>`
+  }
+};
@@ -0,0 +1,15 @@
+// Provider responses that were stored with empty citations, copied verbatim
+// from records/corrupted_daily_summaries_rows.csv. None of them carries a
+// linkable source, so processDigestResponse must reject each one rather than
+// store another digest like them.
+
+export const CORRUPTED_RESPONSES: Record<string, string> = {
+  // "Citations:" block whose entries name outlets but carry no URL
+  'de4a6175': 'Bitcoin is holding above key psychological support at $57,000 after heavy sell-side pressure from recent miner liquidations and ETF outflows. Volatility is compressing, and traders are watching for a decisive move; a clean break below $56,000 could trigger widespread stop-loss cascades, but resilient demand near $58,000 signals whales are quietly accumulating. Near-term, caution is advised, as macro headwinds and risk-off sentiment persist, but fast-moving scalps are possible on volatility spikes [1][2].\n\nEthereum is underperforming BTC, stuck below $3,100, with traders cautious ahead of the SEC’s next move on spot ETH ETF approvals. On-chain metrics show large holders accumulating, but no breakout momentum. If ETH can clear $3,200, a quick rally to $3,400 is on the table; failure means more downside toward $2,900, especially if BTC loses support [2][3].\n\nSolana is showing relative strength, bouncing off $130 support amid heavy liquidations across smaller alts. DeFi activity remains robust, and Solana’s ecosystem is seeing steady inflows, with meme coin speculation cooling but not dead. If BTC stabilizes, SOL has room to outperform; traders are watching for rotation trades out of lagging L1s and into SOL if risk appetite returns [2][4].\n\nPolkadot is struggling, with DOT sliding below $6 and failing to attract major inflows despite network upgrades. Sentiment is weak; no clear catalysts are on the horizon. Risk of further drawdown is high if macro or crypto-wide selling accelerates. Short-term, only scalp trades are viable unless DOT flips $6.50 convincingly [5].\n\nHedera has bucked the trend, catching a bid on news of fresh enterprise partnerships and new NFT launches, but volumes are thin and price action is choppy. If momentum continues, there’s upside to $0.09, but this is a highly speculative play—no follow-through from majors could see HBAR retrace quickly. Strict stops are a must [6].\n\nDogecoin saw a brief speculative rally on social buzz, but failed to break $0.13, with sellers stepping in. DOGE remains a pure sentiment trade; if meme coin flows pick up, it could spike, but right now the risk is skewed to the downside unless broader retail FOMO returns [2][7].\n\nCoinmetro token (XCM) is flat, with low volume and no major news. Unless a new exchange listing or ecosystem catalyst drops, XCM is illiquid and not a focus for most traders right now.\n\nMajor tokens: BNB is resilient above $525 thanks to ongoing BNB Chain growth, but most majors are moving in lockstep with BTC. Altcoins are seeing net outflows as traders de-risk. Sentiment is cautious-to-bearish, with rotation plays possible only if BTC volatility subsides and risk-on flows return [2][8].\n\nActionable insights:  \n- Stay nimble; scalp volatility, but keep stops tight—macro and ETF flows are still dictating direction.  \n- Watch Solana for rotations; if BTC stabilizes, SOL could see outsized gains.  \n- ETH needs to clear $3,200 for momentum; otherwise, the risk of a retrace remains.  \n- Avoid chasing weak alts like DOT unless clear reversal signals emerge.  \n- Hedera offers a speculative breakout, but treat as a high-risk, low-liquidity play.  \n- Dogecoin is dead money until meme coin sentiment improves—avoid unless chasing social-driven pops.  \n\nCitations:  \n[1] Kaiko Research—BTC ETF flows, miner selling  \n[2] TradingView—real-time price action and volume, order flow  \n[3] Glassnode—on-chain metrics, ETH holder data  \n[4] DeFi Llama—Solana TVL and ecosystem flows  \n[5] Messari—DOT ecosystem developments  \n[6] Official Hedera announcements—enterprise partnerships  \n[7] X (Twitter) trending topics—meme coin sentiment  \n[8] CoinGecko—market cap and liquidity data',
+
+  // Unnumbered "Citations:" block of outlet names and dates, no URLs
+  '125bdfff': 'Bitcoin is currently consolidating near key support at $61,000, with volatility spiking after a failed push above $63,000. Institutional flows are mixed—ETFs saw moderate inflows, but spot selling from Asia overnight kept a lid on price. No major liquidation events, but options open interest is building around the $60,000 and $65,000 strikes, signaling traders are bracing for a breakout move. Watch for a decisive breach below $60,000; that’s where stop runs could trigger sharp downside. If bulls defend this level, upside could accelerate quickly on short covering [1][2].\n\nEthereum is lagging, stuck below $3,300, weighed down by lackluster DeFi activity and rotation into other L1s. ETH ETF anticipation is fading as regulatory updates remain slow, and the ETH/BTC ratio just hit a new local low—sentiment here is cautious, with whales showing little accumulation. Bulls need a catalyst or this underperformance could worsen, especially if BTC momentum picks up [1][3].\n\nSolana is the day’s standout among majors. SOL weathered recent outages and is bouncing hard, up nearly 6% on the session, outpacing both BTC and ETH. On-chain data shows strong NFT and DePIN ecosystem growth, and traders are aggressively accumulating between $140 and $150, betting on a continued bounce. If SOL clears $170, look for FOMO and short squeezes to ignite. Risk: Any new network instability could trigger a fast reversal [2][4].\n\nPolkadot is drifting sideways, barely holding above $6. The market is apathetic—parachain auctions aren’t sparking excitement, and developer activity is steady but overshadowed by rival chains. DOT is vulnerable if broader risk-off sentiment worsens. Short-term, not much edge unless a governance or tech announcement surprises [3].\n\nHedera (HBAR) is seeing speculative interest after a major South Korean telecom announced a new partnership using Hedera for IoT applications. Price is up double digits, but volumes are thin and the rally looks frothy—traders are already fading the news. Unless there’s follow-through adoption, expect a pullback as profit-takers step in [4][5].\n\nDogecoin remains range-bound despite renewed meme coin hype elsewhere. DOGE whale wallets are accumulating, but retail interest is flat. Unless Elon Musk or another headline moves the needle, expect DOGE to chop with the broader altcoin market. Higher beta meme coins are drawing the speculative flows for now [2].\n\nCoinmetro token (XCM) has low liquidity but saw a sharp spike after the platform announced new staking features and a planned expansion into the US market. Volatility is extreme—this is a pure event-driven play. Only trade if you can handle wild swings; thin order books could amplify both moves and reversals [5].\n\nMarket sentiment is bifurcated: the majors are stuck in chop, but select L1s and ecosystem tokens are seeing breakout attempts. Traders should watch for volatility to pick up as US macro data releases approach and as BTC teeters on key support. Tight stops and nimble positioning are crucial—momentum can reverse on a dime in this environment.\n\nCitations:\n\nGlassnode, on-chain analytics and market flows, July 30, 2025.\n\nCoindesk, live market coverage and price action summary, July 30, 2025.\n\nMessari, sector performance dashboards and ecosystem updates, July 30, 2025.\n\nThe Block, token-specific news and ecosystem developments, July 30, 2025.\n\nCryptoSlate, token event tracking and exchange data, July 30, 2025.',
+
+  // [n] markers with no sources block at all
+  'ebc3902f': 'Bitcoin achieved a new all-time high of $111,500 on May 25, 2025, representing an 18% monthly gain that pushed its market capitalization to $2.15 trillion[5]. This breakthrough has been followed by a slight stabilization phase as the market digests this significant milestone[1].\n\nThe record-breaking rally gained substantial momentum after the U.S. Federal Reserve signaled a dovish stance on interest rates, while institutional ETF inflows exceeded $45 billion for May alone[5]. Sovereign wealth funds in Asia and the Middle East have accelerated their Bitcoin adoption, providing additional market support[5].\n\nEthereum is showing strong performance with a 12% monthly increase, trading at $2,650 with a market cap of $318 billion[5]. Recent finalized upgrades to Ethereum\'s Layer-2 ecosystem have reduced average transaction fees to $1.20 while maintaining 120 transactions per second, making the network more efficient for traders[5]. Institutional validators now control 38% of staked ETH, signaling growing confidence in the network\'s long-term utility[5].\n\nSolana has emerged as May\'s standout performer with a 23% surge to $186—a new 2025 high—bringing its market cap to $96.7 billion[5]. The network processed a remarkable 4.1 billion transactions during the month, driven by meme coin activity and NFT launches[5]. However, traders should note that congestion during high-volume periods has highlighted the need for optimized node configurations, which could affect transaction speeds during peak trading[5].\n\nThe broader crypto market entered 2025 with strong momentum and many analysts expect the rally to continue to new all-time highs, driven by improved regulatory clarity, institutional adoption, and cyclical factors[2]. The EU\'s Markets in Crypto Assets (MiCA) regulation has established a global standard, while the Trump administration has taken a pro-crypto stance by rescinding policies that discouraged banks from offering crypto custody services and appointing a crypto-friendly SEC chair[2].\n\nInstitutional adoption continues to grow following the SEC\'s approval of US spot bitcoin and ether ETFs in 2024[2]. BlackRock\'s bitcoin ETF became the fastest-growing ETF in history, with further approvals expected in 2025 for Solana and XRP[2]. Beyond ETFs, fintech companies like Robinhood and PayPal have expanded their crypto offerings, focusing particularly on stablecoins and trading services[2].\n\nFor traders looking for diversification, the current top cryptocurrencies to consider include Bitcoin, Ethereum, Binance Coin, Solana, Ripple, Dogecoin, and Polkadot[3]. With Bitcoin\'s halving event having occurred, market cycles suggest that late 2025 could mark a new market high if historical patterns hold[2], making this potentially a strategic accumulation period.'
+};
@@ -0,0 +1,130 @@
+// Raw provider responses captured from production output (see
+// records/corrupted_daily_summaries_rows.csv). They back the digest tests and
+// the stub provider, so the generation pipeline can run end to end without
+// network access.
+
+import type { DigestSource } from '../digest.ts';
+
+export interface DigestFixture {
+  text: string;
+  sources: DigestSource[];
+  // 'json' fixtures are replayed for structured-mode requests
+  format?: 'prose' | 'json';
+}
+
+export const DIGEST_FIXTURES: Record<string, DigestFixture> = {
+  // Plain prose with [n] markers; sources arrive as structured API metadata
+  'api-sources': {
+    text: 'Bitcoin just ripped through a critical resistance zone, surging 4.2% in the last 24 hours, climbing from $62,500 to $65,100 off renewed buying pressure and strong trading volume. This fresh leg up is attracting both retail and institutional money; Grayscale Bitcoin Trust (GBTC) saw $50 million in inflows and CME Bitcoin futures open interest jumped 5% to $6.2 billion, showing the big players are taking on risk despite turbulence in equities. This is momentum you ride, not fade—look for leveraged opportunities on BTC/USD/BTC/USDT pairs until clear resistance signals a reversal. Watch the tape and keep one eye on the U.S. jobs report dropping May 30—macro risk could flip the script fast[1].\n\nBeyond price, crypto is flexing its independence from traditional markets. Macro pressure on stocks hasn’t derailed the crypto climb. Regulatory clarity, a 90-day U.S. tariff pause, and rising institutional adoption are acting as rocket fuel, with traders eyeing new all-time highs as not just hype, but a real possibility[2][3]. Ethereum, Binance Coin, Solana, and key altcoins are also in focus, with improved sentiment and sector rotation likely if Bitcoin’s breakout holds[4]. There’s a clear appetite for selective risk, especially in assets that benefit from recent Web3 and DeFi momentum[2].\n\nThe market mood is bullish but tightly wound—any macro shock or signals of U.S. regulatory crackdown could trigger rapid de-risking. The smart play: ride the trend, tighten stops, and don’t get greedy—altcoin breakouts will lag and follow BTC’s lead. If Bitcoin punches decisively above $65,500, expect FOMO to drive the next leg; if rejected, prepare for a fast unwind[1]. For now, the path of least resistance is up, but with volatility likely to spike around headline macro events. Prioritize flexibility—opportunities are real, but so is whiplash risk.',
+    sources: [
+      { url: 'https://www.coindesk.com/markets/2025/05/26/bitcoin-jumps-above-65k', title: 'Bitcoin Jumps Above $65K as Futures Open Interest Climbs' },
+      { url: 'https://www.reuters.com/technology/crypto-markets-decouple-from-equities-2025-05-26/', title: 'Crypto markets shrug off equity turbulence' },
+      { url: 'https://cointelegraph.com/news/tariff-pause-crypto-rally', title: 'Tariff pause fuels crypto rally' },
+      { url: 'https://www.coingecko.com/en/categories/layer-1', title: 'Top Layer 1 Coins by Market Cap' }
+    ]
+  },
+
+  // Markers followed by a bare URL in parentheses: "[1] (https://...)"
+  'inline-links': {
+    text: 'The market is pushing hard into May 2025, and money is flowing in. In April, crypto’s total market cap jumped 10.8%, fueled by global macro tailwinds—like the U.S. government’s 90-day tariff suspension—which helped Bitcoin decouple from equities and reinforce its role as a hedge against uncertainty[1] (https://www.binance.com/en/blog/research/binance-research-key-trends-in-crypto--may-2025-3869497872430359035).\n\nRegulation is the current market catalyst. The EU’s MiCA law is now the global template, and the U.S., under the Trump administration, has gone full pro-crypto: rescinding SAB 121 (clearing banks to hold crypto), installing a crypto-friendly SEC chair, and launching a federal working group focused on digital assets. This clean regulatory slate is a green light for institutions[2] (https://www.globenewswire.com/news-release/2025/05/07/3076321/0/en/Cryptocurrencies-Strategic-Intelligence-Report-2025-Many-Expect-a-Rally-to-New-All-time-Highs-Driven-by-Regulatory-Institutional-and-Cyclical-Factors.html).\n\nInstitutional adoption is ramping up. Spot Bitcoin and Ethereum ETFs are now mainstream investment vehicles—BlackRock’s BTC ETF is the fastest-growing in history. Traders are betting on approvals for Solana and XRP ETFs and watching the next moves by giants like Robinhood and PayPal, both expanding stablecoin and crypto trading. Historically, crypto peaks 12–18 months after a Bitcoin halving; late 2025 is the window, so the momentum is real[2] (https://www.globenewswire.com/news-release/2025/05/07/3076321/0/en/Cryptocurrencies-Strategic-Intelligence-Report-2025-Many-Expect-a-Rally-to-New-All-time-Highs-Driven-by-Regulatory-Institutional-and-Cyclical-Factors.html).\n\nSentiment is bullish—driven by regulatory clarity, liquidity, and tech adoption. But traders have to respect the volatility: crypto moves on headlines, regulatory signals, and even social buzz, making sentiment analysis a daily requirement. Positive news and ETF flows can squeeze shorts and deliver upside breakouts, while regulatory surprises, hacks, or sudden central bank pivots can spark sharp corrections[5] (https://www.avatrade.com/blog/cryptocurrencies/market-sentiment-affects-crypto).\n\nActionable takeaway: Stay long on major caps (BTC, ETH, SOL, XRP) in anticipation of new ETF approvals and continued institutional flows. Watch for regulatory news—pro-crypto policy is a buy signal, but abrupt enforcement actions or negative legislation are exit cues. Short-term traders should monitor sentiment swings for volatility plays; scalping around ETF headlines and policy decisions offers high-reward setups. Risk management is critical—tight stops and scaling out profits remain essential in these headline-driven markets.',
+    sources: []
+  },
+
+  // Structured-mode JSON document reusing the api-sources source list
+  'structured-json': {
+    format: 'json',
+    text: `{
+        "headline": "Bitcoin breaks $65K resistance as institutional flows return",
+        "sections": [
+          {
+            "heading": "Market Overview",
+            "claims": [
+              {
+                "text": "Bitcoin surged 4.2% in 24 hours, climbing from $62,500 to $65,100 on strong volume.",
+                "citations": [
+                  1
+                ]
+              },
+              {
+                "text": "Crypto is decoupling from equities as a 90-day U.S. tariff pause and regulatory clarity fuel risk appetite.",
+                "citations": [
+                  2,
+                  3
+                ]
+              }
+            ]
+          },
+          {
+            "heading": "Actionable Insights",
+            "claims": [
+              {
+                "text": "A decisive break above $65,500 opens the next leg; a rejection there signals a fast unwind.",
+                "citations": [
+                  1
+                ]
+              }
+            ]
+          }
+        ],
+        "tokens": [
+          {
+            "symbol": "BTC",
+            "note": "Momentum trade above $65,100; GBTC saw $50 million in inflows.",
+            "sentiment": "bullish",
+            "citations": [
+              1
+            ]
+          },
+          {
+            "symbol": "SOL",
+            "note": "Sector rotation likely if Bitcoin's breakout holds.",
+            "sentiment": "bullish",
+            "citations": [
+              4
+            ]
+          },
+          {
+            "symbol": "ETH",
+            "note": "In focus but lagging BTC; waiting for confirmation.",
+            "sentiment": "neutral",
+            "citations": [
+              4
+            ]
+          }
+        ],
+        "sentiment": {
+          "label": "bullish",
+          "confidence": 0.72,
+          "rationale": "Breakout on volume with institutional inflows, tempered by macro event risk."
+        },
+        "risks": [
+          {
+            "text": "The U.S. jobs report on May 30 could flip the macro picture quickly.",
+            "citations": [
+              1
+            ]
+          }
+        ],
+        "opportunities": [
+          {
+            "text": "Leveraged BTC/USDT longs until clear resistance signals a reversal.",
+            "citations": [
+              1
+            ]
+          }
+        ]
+      }`,
+    sources: [
+      { url: 'https://www.coindesk.com/markets/2025/05/26/bitcoin-jumps-above-65k', title: 'Bitcoin Jumps Above $65K as Futures Open Interest Climbs' },
+      { url: 'https://www.reuters.com/technology/crypto-markets-decouple-from-equities-2025-05-26/', title: 'Crypto markets shrug off equity turbulence' },
+      { url: 'https://cointelegraph.com/news/tariff-pause-crypto-rally', title: 'Tariff pause fuels crypto rally' },
+      { url: 'https://www.coingecko.com/en/categories/layer-1', title: 'Top Layer 1 Coins by Market Cap' }
+    ]
+  },
+
+  // Plain markers with a trailing numbered "Sources:" block
+  'sources-block': {
+    text: 'The cryptocurrency market is flashing signals traders can’t ignore. Recent price action is bullish, with the total market cap notching a 10.8% increase in April and the tone shifting from caution to opportunity. Bitcoin remains the main driver: forecasts for 2025 peg BTC’s range between $80,440 and $151,200, with an outside shot at $175,000–$185,000. The breakout in Bitcoin dominance is squeezing altcoin performance—for now. Historically, when Bitcoin seizes the spotlight like this, profits eventually rotate into high-beta altcoins, igniting broader rallies much like the cycles of 2017, 2020, and 2023[5].\n\nMacro factors are providing significant tailwinds. The U.S. government’s 90-day tariff pause has stabilized markets, while Bitcoin is showing increasing independence from traditional asset classes. This decoupling is reinforcing its narrative as a hedge against uncertainty, attracting new institutional money. Crypto-linked equities like Coinbase are also catching bids, up 2.5% to $245, reinforcing the connection between equity and digital asset sentiment[2][1].\n\nSentiment’s turning fast. More traders expect a push to all-time highs, powered by a rare alignment: improved global regulation, deepening institutional adoption, and crypto’s own cyclical momentum. The EU’s MiCA regulation is now the gold standard, while the U.S. regulatory mood has flipped bullish. The Trump administration has cleared old roadblocks, approved spot Bitcoin and Ether ETFs, and is on track to greenlight new products for Solana and XRP—each announcement could be a tradeable news event. Watch for rotation into second-tier coins as those ETFs get listed. The cyclical pattern is just as important: if historic post-halving rallies repeat, late 2025 could see fresh peaks[3].\n\nActionable takeaways: follow Bitcoin’s lead, but start scouting strong altcoins for the next rotation. Monitor regulatory news from the U.S. and EU—ETF approvals and custody clarifications remain major catalysts. Don’t sleep on crypto equities for amplified beta. The biggest risk is overextending on late-cycle moves; use support levels as your stop-loss anchor and be ready to pivot if sentiment snaps back. The market’s mood is swinging bullish, but volatility is part of the game.\n\nSources:\n1. https://blockchain.news/flashnews/crypto-market-sentiment-shifts-milk-road-signals-possible-market-rebound-in-may-2025\n2. https://www.binance.com/en/blog/research/binance-research-key-trends-in-crypto--may-2025-3869497872430359035\n3. https://www.globenewswire.com/news-release/2025/05/07/3076321/0/en/Cryptocurrencies-Strategic-Intelligence-Report-2025-Many-Expect-a-Rally-to-New-All-time-Highs-Driven-by-Regulatory-Institutional-and-Cyclical-Factors.html\n5. https://investinghaven.com/crypto-forecasts/15-cryptocurrency-forecasts-2025/',
+    sources: []
+  }
+};
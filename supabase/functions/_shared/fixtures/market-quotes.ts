@@ -0,0 +1,20 @@
+// Quotes for the tracked tokens around the time of the stub digests in
+// digest-responses.ts. They back the fixture market data provider so token
+// chips can show prices without network access.
+
+import type { TokenQuote } from '../market.ts';
+
+const AS_OF = '2025-05-26T12:00:00.000Z';
+
+export const MARKET_QUOTE_FIXTURES: Record<string, TokenQuote> = {
+  BTC: { symbol: 'BTC', price: 65100, change24h: 2.14, volume24h: 28.4e9, asOf: AS_OF },
+  ETH: { symbol: 'ETH', price: 3185.42, change24h: 1.37, volume24h: 14.9e9, asOf: AS_OF },
+  SOL: { symbol: 'SOL', price: 168.91, change24h: 4.62, volume24h: 3.1e9, asOf: AS_OF },
+  XRP: { symbol: 'XRP', price: 0.5241, change24h: -0.83, volume24h: 1.2e9, asOf: AS_OF },
+  ADA: { symbol: 'ADA', price: 0.4612, change24h: -1.95, volume24h: 410e6, asOf: AS_OF },
+  DOGE: { symbol: 'DOGE', price: 0.1634, change24h: 3.08, volume24h: 980e6, asOf: AS_OF },
+  DOT: { symbol: 'DOT', price: 7.12, change24h: -0.42, volume24h: 205e6, asOf: AS_OF },
+  HBAR: { symbol: 'HBAR', price: 0.1047, change24h: 0.56, volume24h: 96e6, asOf: AS_OF },
+  // Thinly traded; volume is not reported
+  XCM: { symbol: 'XCM', price: 0.7913, change24h: null, volume24h: null, asOf: AS_OF }
+};
@@ -0,0 +1,137 @@
+// Labelled market-wide and per-token digest paragraphs for measuring the
+// sentiment engine (see `measureSentimentAccuracy` in sentiment.ts). Most are
+// taken from production output in records/corrupted_daily_summaries_rows.csv
+// and labelled by hand; the last few are written to exercise negation and
+// intensifiers.
+
+import type { LabelledDigest } from '../sentiment.ts';
+
+export const SENTIMENT_CORPUS: LabelledDigest[] = [
+  {
+    id: 'de4a6175-p1',
+    label: 'down',
+    content: 'Ethereum is underperforming BTC, stuck below $3,100, with traders cautious ahead of the SEC’s next move on spot ETH ETF approvals. On-chain metrics show large holders accumulating, but no breakout momentum. If ETH can clear $3,200, a quick rally to $3,400 is on the table; failure means more downside toward $2,900, especially if BTC loses support [2][3].'
+  },
+  {
+    id: 'de4a6175-p2',
+    label: 'up',
+    content: 'Solana is showing relative strength, bouncing off $130 support amid heavy liquidations across smaller alts. DeFi activity remains robust, and Solana’s ecosystem is seeing steady inflows, with meme coin speculation cooling but not dead. If BTC stabilizes, SOL has room to outperform; traders are watching for rotation trades out of lagging L1s and into SOL if risk appetite returns [2][4].'
+  },
+  {
+    id: 'de4a6175-p3',
+    label: 'down',
+    content: 'Polkadot is struggling, with DOT sliding below $6 and failing to attract major inflows despite network upgrades. Sentiment is weak; no clear catalysts are on the horizon. Risk of further drawdown is high if macro or crypto-wide selling accelerates. Short-term, only scalp trades are viable unless DOT flips $6.50 convincingly [5].'
+  },
+  {
+    id: 'de4a6175-p5',
+    label: 'down',
+    content: 'Dogecoin saw a brief speculative rally on social buzz, but failed to break $0.13, with sellers stepping in. DOGE remains a pure sentiment trade; if meme coin flows pick up, it could spike, but right now the risk is skewed to the downside unless broader retail FOMO returns [2][7].'
+  },
+  {
+    id: 'de4a6175-p6',
+    label: 'neutral',
+    content: 'Coinmetro token (XCM) is flat, with low volume and no major news. Unless a new exchange listing or ecosystem catalyst drops, XCM is illiquid and not a focus for most traders right now.'
+  },
+  {
+    id: 'de4a6175-p7',
+    label: 'down',
+    content: 'Major tokens: BNB is resilient above $525 thanks to ongoing BNB Chain growth, but most majors are moving in lockstep with BTC. Altcoins are seeing net outflows as traders de-risk. Sentiment is cautious-to-bearish, with rotation plays possible only if BTC volatility subsides and risk-on flows return [2][8].'
+  },
+  // Known miss, scored "up": the lexicon counts the anticipated "breakout
+  // move" and the ETF inflows, and has no term for the failed push above
+  // $63,000 or the selling that capped price
+  {
+    id: '125bdfff-p0',
+    label: 'neutral',
+    content: 'Bitcoin is currently consolidating near key support at $61,000, with volatility spiking after a failed push above $63,000. Institutional flows are mixed—ETFs saw moderate inflows, but spot selling from Asia overnight kept a lid on price. No major liquidation events, but options open interest is building around the $60,000 and $65,000 strikes, signaling traders are bracing for a breakout move. Watch for a decisive breach below $60,000; that’s where stop runs could trigger sharp downside. If bulls defend this level, upside could accelerate quickly on short covering [1][2].'
+  },
+  {
+    id: '125bdfff-p1',
+    label: 'down',
+    content: 'Ethereum is lagging, stuck below $3,300, weighed down by lackluster DeFi activity and rotation into other L1s. ETH ETF anticipation is fading as regulatory updates remain slow, and the ETH/BTC ratio just hit a new local low—sentiment here is cautious, with whales showing little accumulation. Bulls need a catalyst or this underperformance could worsen, especially if BTC momentum picks up [1][3].'
+  },
+  {
+    id: '125bdfff-p2',
+    label: 'up',
+    content: 'Solana is the day’s standout among majors. SOL weathered recent outages and is bouncing hard, up nearly 6% on the session, outpacing both BTC and ETH. On-chain data shows strong NFT and DePIN ecosystem growth, and traders are aggressively accumulating between $140 and $150, betting on a continued bounce. If SOL clears $170, look for FOMO and short squeezes to ignite. Risk: Any new network instability could trigger a fast reversal [2][4].'
+  },
+  {
+    id: '125bdfff-p3',
+    label: 'neutral',
+    content: 'Polkadot is drifting sideways, barely holding above $6. The market is apathetic—parachain auctions aren’t sparking excitement, and developer activity is steady but overshadowed by rival chains. DOT is vulnerable if broader risk-off sentiment worsens. Short-term, not much edge unless a governance or tech announcement surprises [3].'
+  },
+  {
+    id: '125bdfff-p5',
+    label: 'neutral',
+    content: 'Dogecoin remains range-bound despite renewed meme coin hype elsewhere. DOGE whale wallets are accumulating, but retail interest is flat. Unless Elon Musk or another headline moves the needle, expect DOGE to chop with the broader altcoin market. Higher beta meme coins are drawing the speculative flows for now [2].'
+  },
+  // Known miss, scored "up": "breakout attempts" and "momentum can reverse"
+  // read as bullish terms, though neither says which way the market went
+  {
+    id: '125bdfff-p7',
+    label: 'neutral',
+    content: 'Market sentiment is bifurcated: the majors are stuck in chop, but select L1s and ecosystem tokens are seeing breakout attempts. Traders should watch for volatility to pick up as US macro data releases approach and as BTC teeters on key support. Tight stops and nimble positioning are crucial—momentum can reverse on a dime in this environment.'
+  },
+  {
+    id: 'ebc3902f-p0',
+    label: 'up',
+    content: 'Bitcoin achieved a new all-time high of $111,500 on May 25, 2025, representing an 18% monthly gain that pushed its market capitalization to $2.15 trillion[5]. This breakthrough has been followed by a slight stabilization phase as the market digests this significant milestone[1].'
+  },
+  {
+    id: 'e0a9300e-p0',
+    label: 'up',
+    content: 'The cryptocurrency market has shown strong recovery in recent months, with a notable 10.8% increase in market capitalization during April 2025, partly driven by macro developments including the U.S. government\'s 90-day pause on tariffs[1]. Bitcoin has particularly demonstrated resilience and independence from traditional markets, reinforcing its position as a hedge against uncertainty[1].'
+  },
+  {
+    id: 'e0a9300e-p5',
+    label: 'neutral',
+    content: 'However, traders should remain cautious as ongoing macroeconomic challenges and geopolitical factors continue to influence market sentiment, potentially leading to high volatility[5]. The key to successful trading in this environment will be staying informed about regulatory developments and adapting quickly to market changes.'
+  },
+  {
+    id: '1be04e34-p0',
+    label: 'up',
+    content: 'Bitcoin is experiencing a significant price rebound today, May 26, 2025, surging 4.2% from a low of $62,500 to a high of $65,100 within a 24-hour window[1]. This bounce is driven by strong trading volumes and renewed buying interest, suggesting a potential shift in short-term market sentiment.'
+  },
+  {
+    id: '94e0bb6e-p0',
+    label: 'up',
+    content: 'Bitcoin just ripped through a critical resistance zone, surging 4.2% in the last 24 hours, climbing from $62,500 to $65,100 off renewed buying pressure and strong trading volume. This fresh leg up is attracting both retail and institutional money; Grayscale Bitcoin Trust (GBTC) saw $50 million in inflows and CME Bitcoin futures open interest jumped 5% to $6.2 billion, showing the big players are taking on risk despite turbulence in equities. This is momentum you ride, not fade—look for leveraged opportunities on BTC/USD/BTC/USDT pairs until clear resistance signals a reversal. Watch the tape and keep one eye on the U.S. jobs report dropping May 30—macro risk could flip the script fast[1].'
+  },
+  {
+    id: '1fbac33a-p0',
+    label: 'up',
+    content: 'The cryptocurrency market is flashing signals traders can’t ignore. Recent price action is bullish, with the total market cap notching a 10.8% increase in April and the tone shifting from caution to opportunity. Bitcoin remains the main driver: forecasts for 2025 peg BTC’s range between $80,440 and $151,200, with an outside shot at $175,000–$185,000. The breakout in Bitcoin dominance is squeezing altcoin performance—for now. Historically, when Bitcoin seizes the spotlight like this, profits eventually rotate into high-beta altcoins, igniting broader rallies much like the cycles of 2017, 2020, and 2023[5].'
+  },
+
+  // Written for the engine's negation and intensifier handling
+  {
+    id: 'negated-bullish',
+    label: 'down',
+    content: 'Sentiment is not bullish. Bitcoin failed to rally above $70,000 and ether could not hold its gains, with altcoins slipping as traders moved to the sidelines.'
+  },
+  {
+    id: 'negated-bearish',
+    label: 'up',
+    content: 'There was no capitulation and no sign of a bear market. Bitcoin rebounded from early weakness and closed the session up 3%, with steady ETF inflows.'
+  },
+  {
+    id: 'trailing-negation',
+    label: 'down',
+    content: 'Solana did not get the rally traders hoped for. Expected inflows never came, and the token lost its $150 support as sellers took control.'
+  },
+  {
+    id: 'negated-both-ways',
+    label: 'neutral',
+    content: 'Bitcoin is not in a bear market, but momentum is not strong either; prices moved sideways with no breakout and no breakdown.'
+  },
+  {
+    id: 'intensified-decline',
+    label: 'down',
+    content: 'Bitcoin fell sharply overnight, sliding 8% as liquidations swept the market, while a brief rebound in ether faded quickly.'
+  },
+  {
+    id: 'damped-gains',
+    label: 'neutral',
+    content: 'Bitcoin rose slightly in thin holiday trading while ether dipped modestly; there was little else to report ahead of the jobs data.'
+  }
+];
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runWithLease, type GenerationLeaseRow, type LeaseRpc } from './leases.ts';
+
+// In-memory stand-in for the lease functions in the
+// create_generation_leases migration
+const createLeaseStore = () => {
+  const leases = new Map<string, GenerationLeaseRow>();
+  const calls: { fn: string; status?: unknown; at: number }[] = [];
+  const expiresAt = (ttl: unknown) => new Date(Date.now() + Number(ttl ?? 180) * 1000).toISOString();
+
+  const rpc: LeaseRpc = async (fn, args) => {
+    const key = args.p_lease_key as string;
+    const lease = leases.get(key);
+    calls.push({ fn, status: args.p_status, at: Date.now() });
+
+    if (fn === 'acquire_generation_lease') {
+      const expired = lease && ['pending', 'running'].includes(lease.status) && lease.expires_at < new Date().toISOString();
+      if (!lease || lease.status === 'failed' || expired) {
+        const row: GenerationLeaseRow = {
+          id: key,
+          lease_key: key,
+          status: 'pending',
+          holder: args.p_holder as string,
+          summary_id: null,
+          error: null,
+          attempts: (lease?.attempts ?? 0) + 1,
+          expires_at: expiresAt(args.p_ttl_seconds),
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+        leases.set(key, row);
+        return { data: row, error: null };
+      }
+      return { data: lease, error: null };
+    }
+
+    const status = args.p_status as GenerationLeaseRow['status'];
+    const allowed =
+      (lease?.status === 'pending' && ['running', 'failed'].includes(status)) ||
+      (lease?.status === 'running' && ['running', 'succeeded', 'failed'].includes(status));
+    if (!lease || lease.holder !== args.p_holder || !allowed) {
+      return { data: null, error: { message: `Invalid generation lease transition: ${key} to ${status}` } };
+    }
+    lease.status = status;
+    lease.summary_id = (args.p_summary_id as string | undefined) ?? lease.summary_id;
+    if (status === 'running') lease.expires_at = expiresAt(args.p_ttl_seconds);
+    return { data: lease, error: null };
+  };
+
+  return { rpc, leases, calls };
+};
+
+const KEY = '2026-10-19:us-open:market';
+
+describe('runWithLease', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T13:30:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('renews the lease while a generation outlasts its TTL', async () => {
+    const { rpc, calls } = createLeaseStore();
+    let seenByLateCaller: Partial<GenerationLeaseRow> = {};
+
+    const slow = runWithLease(rpc, KEY, 'cron:a', async () => {
+      await vi.advanceTimersByTimeAsync(400_000);
+      // A second caller arriving late must wait, not generate again
+      const { data } = await rpc('acquire_generation_lease', { p_lease_key: KEY, p_holder: 'client:b' });
+      const { holder, status } = data as GenerationLeaseRow;
+      seenByLateCaller = { holder, status };
+      return { summaryId: 'summary-a' };
+    });
+
+    await expect(slow).resolves.toEqual({ kind: 'generated', value: { summaryId: 'summary-a' } });
+    expect(seenByLateCaller).toEqual({ holder: 'cron:a', status: 'running' });
+    const renewals = calls.filter(call => call.fn === 'update_generation_lease' && call.status === 'running');
+    // The initial transition plus one renewal a minute
+    expect(renewals).toHaveLength(1 + 6);
+  });
+
+  it('stops renewing once the generation settles', async () => {
+    const { rpc, calls, leases } = createLeaseStore();
+
+    await expect(
+      runWithLease(rpc, KEY, 'cron:a', async () => {
+        throw new Error('provider down');
+      })
+    ).rejects.toThrow('provider down');
+    const settled = calls.length;
+    await vi.advanceTimersByTimeAsync(300_000);
+
+    expect(calls).toHaveLength(settled);
+    expect(leases.get(KEY)?.status).toBe('failed');
+  });
+});
@@ -0,0 +1,167 @@
+// Generation leases.
+//
+// Before generating, a caller claims the lease for its (day, edition, token).
+// Only the holder calls the provider and stores the digest; everyone else
+// waits for the lease to finish and reuses the stored summary. The database
+// side lives in the `create_generation_leases` migration; callers pass in
+// their own Supabase client so this module stays runtime-independent.
+
+export type LeaseStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+// Persisted shape of a `generation_leases` row
+export interface GenerationLeaseRow {
+  id: string;
+  lease_key: string;
+  status: LeaseStatus;
+  holder: string;
+  summary_id: string | null;
+  error: string | null;
+  attempts: number;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LeaseRpcResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+// The subset of a Supabase client this module needs
+export type LeaseRpc = (fn: string, args: Record<string, unknown>) => PromiseLike<LeaseRpcResult>;
+
+export interface LeaseOptions {
+  // Take over a lease that already succeeded (explicit regeneration)
+  force?: boolean;
+  // How long a claimed lease stays valid without progress. The holder renews
+  // it every third of that while generating.
+  ttlSeconds?: number;
+  // How long to wait for someone else's generation
+  waitMs?: number;
+  pollMs?: number;
+}
+
+export type LeaseOutcome<T> =
+  | { kind: 'generated'; value: T }
+  | { kind: 'reused'; summaryId: string };
+
+export class GenerationLeaseError extends Error {
+  constructor(message: string, public readonly lease?: GenerationLeaseRow) {
+    super(message);
+    this.name = 'GenerationLeaseError';
+  }
+}
+
+export const leaseKey = (date: string, edition: string | null | undefined, token?: string | null): string =>
+  `${date}:${edition ?? 'daily'}:${token ?? 'market'}`;
+
+export const createLeaseHolderId = (prefix: string): string =>
+  `${prefix}:${crypto.randomUUID()}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const callRpc = async (rpc: LeaseRpc, fn: string, args: Record<string, unknown>): Promise<GenerationLeaseRow> => {
+  const { data, error } = await rpc(fn, args);
+  if (error) {
+    throw new GenerationLeaseError(`${fn} failed: ${error.message}`);
+  }
+  return data as GenerationLeaseRow;
+};
+
+// Renews a running lease until `run` settles, so a generation that outlasts
+// the TTL (retries, a structured fallback, page fetches) is not taken over
+// and stored twice. A failed renewal is logged; the final update reports a
+// lease that was lost anyway.
+const renewWhile = async <T>(
+  rpc: LeaseRpc,
+  key: string,
+  holder: string,
+  ttlSeconds: number,
+  run: () => Promise<T>
+): Promise<T> => {
+  const timer = setInterval(() => {
+    callRpc(rpc, 'update_generation_lease', {
+      p_lease_key: key,
+      p_holder: holder,
+      p_status: 'running',
+      p_ttl_seconds: ttlSeconds
+    }).catch(err => console.error('Error renewing generation lease:', err));
+  }, (ttlSeconds * 1000) / 3);
+
+  try {
+    return await run();
+  } finally {
+    clearInterval(timer);
+  }
+};
+
+// Runs `generate` while holding the lease for `key`. `generate` must store
+// the digest and return the new summary id. When another caller holds the
+// lease, waits for it and returns its summary id instead.
+export const runWithLease = async <T extends { summaryId: string }>(
+  rpc: LeaseRpc,
+  key: string,
+  holder: string,
+  generate: () => Promise<T>,
+  options: LeaseOptions = {}
+): Promise<LeaseOutcome<T>> => {
+  const { force = false, ttlSeconds = 180, waitMs = 120_000, pollMs = 3_000 } = options;
+  const deadline = Date.now() + waitMs;
+  // Only the first claim may force: a result someone else finished while we
+  // waited is as fresh as the one we asked for
+  let forceClaim = force;
+
+  for (;;) {
+    const lease = await callRpc(rpc, 'acquire_generation_lease', {
+      p_lease_key: key,
+      p_holder: holder,
+      p_ttl_seconds: ttlSeconds,
+      p_force: forceClaim
+    });
+    forceClaim = false;
+
+    if (lease.holder === holder && lease.status === 'pending') {
+      await callRpc(rpc, 'update_generation_lease', {
+        p_lease_key: key,
+        p_holder: holder,
+        p_status: 'running',
+        p_ttl_seconds: ttlSeconds
+      });
+
+      try {
+        const value = await renewWhile(rpc, key, holder, ttlSeconds, generate);
+        await callRpc(rpc, 'update_generation_lease', {
+          p_lease_key: key,
+          p_holder: holder,
+          p_status: 'succeeded',
+          p_summary_id: value.summaryId
+        });
+        return { kind: 'generated', value };
+      } catch (err) {
+        await callRpc(rpc, 'update_generation_lease', {
+          p_lease_key: key,
+          p_holder: holder,
+          p_status: 'failed',
+          p_error: err instanceof Error ? err.message : String(err)
+        }).catch(updateError => console.error('Error releasing generation lease:', updateError));
+        throw err;
+      }
+    }
+
+    if (lease.status === 'succeeded') {
+      if (lease.summary_id) {
+        return { kind: 'reused', summaryId: lease.summary_id };
+      }
+      // The summary it produced has since been deleted; generate again
+      forceClaim = true;
+      continue;
+    }
+
+    if (Date.now() + pollMs > deadline) {
+      throw new GenerationLeaseError(`Timed out waiting for ${key} (held by ${lease.holder}, ${lease.status})`, lease);
+    }
+
+    console.log(`Waiting for ${lease.holder} to finish ${key} (${lease.status})...`);
+    await sleep(pollMs);
+  }
+};
@@ -0,0 +1,120 @@
+// Sentiment lexicon and scoring settings used by sentiment.ts.
+//
+// Categories are weighted: plain price moves count once, explicit sentiment
+// language half as much again, and regime calls like "bear market" three
+// times. Terms are matched as whole words, so list each inflection. Check
+// changes against the labelled corpus with `npm test` (sentiment.test.ts).
+
+import type { SentimentConfig } from './sentiment.ts';
+
+// Stored with every digest's sentiment. Bump it with any change below so
+// stored scores can be told apart and re-scored on purpose.
+export const SENTIMENT_ENGINE_VERSION = 'lexicon@1';
+
+export const DEFAULT_SENTIMENT_CONFIG: SentimentConfig = {
+  categories: [
+    {
+      name: 'Price gains',
+      polarity: 'positive',
+      weight: 1,
+      terms: [
+        'rally', 'rallies', 'rallied', 'rallying', 'surge', 'surges', 'surged', 'surging',
+        'soar', 'soared', 'soaring', 'jump', 'jumped', 'jumps', 'climb', 'climbed', 'climbing',
+        'gain', 'gains', 'gained', 'rise', 'rises', 'rose', 'rising', 'advance', 'advanced',
+        'rebound', 'rebounded', 'rebounding', 'bounce', 'bounced', 'bouncing', 'recover',
+        'recovered', 'recovery', 'upside', 'moved higher', 'trading higher', 'pushed higher',
+        'new high', 'new highs', 'catching a bid', 'short squeeze', 'short squeezes'
+      ]
+    },
+    {
+      name: 'Bullish sentiment',
+      polarity: 'positive',
+      weight: 1.5,
+      terms: [
+        'bullish', 'optimism', 'optimistic', 'inflows', 'buying pressure', 'buying interest',
+        'accumulating', 'accumulation', 'uptrend', 'outperform', 'outperforming', 'outperformed',
+        'outpacing', 'breakout', 'breakthrough', 'broke above', 'relative strength', 'strength',
+        'resilience', 'resilient', 'tailwinds', 'risk appetite', 'momentum', 'fomo', 'standout'
+      ]
+    },
+    {
+      name: 'Strong bullish signals',
+      polarity: 'positive',
+      weight: 3,
+      terms: [
+        'bull market', 'strong buy signal', 'significant rally', 'all time high', 'all time highs',
+        'record high', 'record highs'
+      ]
+    },
+    {
+      name: 'Price declines',
+      polarity: 'negative',
+      weight: 1,
+      terms: [
+        'fall', 'falls', 'fell', 'falling', 'drop', 'drops', 'dropped', 'dropping', 'decline',
+        'declines', 'declined', 'declining', 'slide', 'slid', 'sliding', 'slump', 'slumped',
+        'plunge', 'plunged', 'tumble', 'tumbled', 'sank', 'sink', 'sinking', 'retreat',
+        'retreated', 'dip', 'dipped', 'slipped', 'slipping', 'stuck', 'reverse', 'pullback', 'retrace', 'downside', 'drawdown', 'losses',
+        'loses', 'moved lower', 'trading lower', 'new low', 'new local low', 'reversal', 'unwind'
+      ]
+    },
+    {
+      name: 'Bearish sentiment',
+      polarity: 'negative',
+      weight: 1.5,
+      terms: [
+        'bearish', 'pessimism', 'pessimistic', 'fear', 'risk off', 'outflows', 'selling pressure',
+        'sell side pressure', 'selloff', 'sell off', 'liquidations', 'downtrend', 'underperform',
+        'underperforming', 'underperformance', 'underperformed', 'lagging', 'weakness', 'weak',
+        'broke below', 'struggling', 'headwinds', 'cautious', 'caution', 'de risk', 'de risking',
+        'derailed', 'fading', 'sellers', 'profit takers'
+      ]
+    },
+    {
+      name: 'Strong bearish signals',
+      polarity: 'negative',
+      weight: 3,
+      terms: [
+        'bear market', 'strong sell signal', 'significant drop', 'crash', 'crashed', 'capitulation'
+      ]
+    }
+  ],
+  negators: [
+    'not', 'no', 'never', 'without', 'nor', 'neither', 'hardly', 'barely', 'lack', 'lacks',
+    'failed', 'fails', 'failing', 'unable', "isn't", "aren't", "wasn't", "weren't", "don't",
+    "doesn't", "didn't", "hasn't", "haven't", "won't", "can't", 'little'
+  ],
+  trailingNegators: [
+    'never came', 'never materialized', 'did not materialize', "didn't materialize",
+    'failed to materialize', 'fizzled', 'faded', 'evaporated', 'was rejected', 'is not',
+    "isn't", 'are not', "aren't", 'was not', "wasn't"
+  ],
+  // "may" is left out: it is usually the month
+  hedges: ['if', 'unless', 'could', 'might', 'would', 'can'],
+  hedgeFactor: 0.5,
+  negationBreaks: ['but', 'however', 'although', 'though', 'yet', 'while', 'despite', 'and', 'or'],
+  negationWindow: 4,
+  negationFactor: 0.5,
+  intensifiers: {
+    very: 1.5,
+    sharply: 1.5,
+    sharp: 1.5,
+    strongly: 1.5,
+    strong: 1.5,
+    significantly: 1.5,
+    significant: 1.5,
+    hard: 1.5,
+    massive: 2,
+    slightly: 0.5,
+    slight: 0.5,
+    modestly: 0.5,
+    modest: 0.5,
+    moderate: 0.5,
+    marginally: 0.5,
+    mild: 0.5,
+    brief: 0.5
+  },
+  threshold: 0.2,
+  minEvidence: 2,
+  evidenceScale: 12
+};
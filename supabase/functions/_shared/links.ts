@@ -0,0 +1,189 @@
+// Link-rot monitoring for archived citations.
+//
+// Articles cited by old digests move or disappear. The `check-citation-links`
+// Edge Function re-checks citation URLs on a schedule and records the result
+// on the citation itself, so the archive can mark dead links and point to an
+// archived snapshot instead. Only `fetch` is needed, as in enrichment.ts.
+
+import type { Citation } from './types.ts';
+
+export interface LinkCheck {
+  url: string;
+  // null when the host could not be reached at all
+  httpStatus: number | null;
+  checkedAt: string;
+  error?: string;
+}
+
+// Finds an archived copy of a page as close as possible to `timestamp`
+export type ArchiveLookup = (url: string, timestamp: string) => Promise<string | null>;
+
+export type ArchiveLookupKind = 'wayback' | 'none';
+
+export interface LinkCheckPlan {
+  // Unique URLs due for a check, least recently checked first
+  urls: string[];
+  // Digest each URL was first cited in, used to pick the snapshot date
+  citedAt: Record<string, string>;
+}
+
+export interface LinkCheckRow {
+  id: string;
+  timestamp: string;
+  citations: Citation[] | null;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RECHECK_AFTER_DAYS = 7;
+
+// Gone for good. Anything else (403 from bot protection, 429, 5xx) may be
+// temporary or a block on crawlers, and does not make a link dead.
+const DEAD_STATUSES = new Set([404, 410]);
+
+const requestStatus = async (url: string, method: 'HEAD' | 'GET', timeoutMs: number): Promise<number> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { method, redirect: 'follow', signal: controller.signal });
+    // Only the status matters; do not download the body
+    await response.body?.cancel();
+    return response.status;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+export const checkLink = async (
+  url: string,
+  options: { timeoutMs?: number } = {}
+): Promise<LinkCheck> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const checkedAt = new Date().toISOString();
+
+  try {
+    let httpStatus = await requestStatus(url, 'HEAD', timeoutMs);
+    // Some servers reject HEAD outright
+    if (httpStatus === 405 || httpStatus === 501) {
+      httpStatus = await requestStatus(url, 'GET', timeoutMs);
+    }
+    return { url, httpStatus, checkedAt };
+  } catch (err) {
+    return { url, httpStatus: null, checkedAt, error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+// An unreachable host only counts once it has failed two checks in a row, so
+// a single network blip does not bury a working link
+export const isDeadLink = (check: LinkCheck, previous?: Citation): boolean => {
+  if (check.httpStatus !== null) {
+    return DEAD_STATUSES.has(check.httpStatus);
+  }
+  return previous?.linkCheckedAt !== undefined && previous.httpStatus === null;
+};
+
+export const createWaybackLookup = (options: { timeoutMs?: number } = {}): ArchiveLookup =>
+  async (url, timestamp) => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    try {
+      const day = timestamp.slice(0, 10).replace(/-/g, '');
+      const response = await fetch(
+        `https://archive.org/wayback/available?url=${encodeURIComponent(url)}&timestamp=${day}`,
+        { signal: controller.signal }
+      );
+      if (!response.ok) {
+        throw new Error(`wayback: lookup returned ${response.status}`);
+      }
+
+      const data = await response.json();
+      const closest = data?.archived_snapshots?.closest;
+      return closest?.available && typeof closest.url === 'string'
+        ? closest.url.replace(/^http:/, 'https:')
+        : null;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
+export const isArchiveLookupKind = (value: string | undefined): value is ArchiveLookupKind =>
+  value === 'wayback' || value === 'none';
+
+// LINK_ARCHIVE_LOOKUP selects the snapshot service; null for 'none'
+export const archiveLookupFromEnv = (getEnv: (key: string) => string | undefined): ArchiveLookup | null => {
+  const kind = getEnv('LINK_ARCHIVE_LOOKUP') ?? 'wayback';
+  if (!isArchiveLookupKind(kind)) {
+    throw new Error(`Unknown archive lookup: ${kind}`);
+  }
+  return kind === 'wayback' ? createWaybackLookup() : null;
+};
+
+// Picks the citation URLs that have never been checked or were last checked
+// more than `recheckAfterDays` ago
+export const planLinkChecks = (
+  rows: LinkCheckRow[],
+  now: Date,
+  options: { recheckAfterDays?: number } = {}
+): LinkCheckPlan => {
+  const { recheckAfterDays = DEFAULT_RECHECK_AFTER_DAYS } = options;
+  const cutoff = now.getTime() - recheckAfterDays * DAY_MS;
+  const lastChecked = new Map<string, number>();
+  const citedAt: Record<string, string> = {};
+
+  for (const row of rows) {
+    for (const citation of row.citations ?? []) {
+      if (!citation.url) continue;
+
+      const checkedAt = citation.linkCheckedAt ? new Date(citation.linkCheckedAt).getTime() : 0;
+      // The same URL cited twice is due if either copy is
+      lastChecked.set(citation.url, Math.min(lastChecked.get(citation.url) ?? Infinity, checkedAt));
+      if (!citedAt[citation.url] || row.timestamp < citedAt[citation.url]) {
+        citedAt[citation.url] = row.timestamp;
+      }
+    }
+  }
+
+  const urls = [...lastChecked.entries()]
+    .filter(([, checkedAt]) => checkedAt < cutoff)
+    .sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))
+    .map(([url]) => url);
+
+  return { urls, citedAt };
+};
+
+// Records a check on a citation; an existing snapshot is kept if the lookup
+// found none this time
+export const applyLinkCheck = (
+  citation: Citation,
+  check: LinkCheck,
+  archiveUrl: string | null
+): Citation => ({
+  ...citation,
+  httpStatus: check.httpStatus,
+  linkCheckedAt: check.checkedAt,
+  linkDead: isDeadLink(check, citation),
+  archiveUrl: archiveUrl ?? citation.archiveUrl
+});
+
+// Where a citation should send readers: the snapshot once the page is gone,
+// otherwise the canonical URL found by enrichment
+export const citationHref = (citation: Citation): string =>
+  (citation.linkDead && citation.archiveUrl) || citation.canonicalUrl || citation.url;
+
+// Applies the checks to a digest's citations; null when none of them changed
+export const applyLinkChecks = (
+  citations: Citation[],
+  checks: Map<string, { check: LinkCheck; archiveUrl: string | null }>
+): Citation[] | null => {
+  let changed = false;
+  const updated = citations.map(citation => {
+    const result = checks.get(citation.url);
+    if (!result) return citation;
+    changed = true;
+    return applyLinkCheck(citation, result.check, result.archiveUrl);
+  });
+  return changed ? updated : null;
+};
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MARKET_QUOTE_FIXTURES } from './fixtures/market-quotes.ts';
+import {
+  captureMarketSnapshot,
+  createFixtureMarketProvider,
+  createQuoteBatcher,
+  DEFAULT_QUOTE_TTL_MS,
+  type MarketDataProvider
+} from './market.ts';
+import { findTokenMentions } from './tokens.ts';
+
+// The fixture provider, counting calls and failing on demand
+const countingProvider = () => {
+  const fixtures = createFixtureMarketProvider();
+  const calls: string[][] = [];
+  let failing = false;
+
+  const provider: MarketDataProvider = {
+    name: 'fixture',
+    async getQuotes(symbols) {
+      calls.push(symbols);
+      if (failing) throw new Error('fixture: 429 Too Many Requests');
+      return fixtures.getQuotes(symbols);
+    }
+  };
+
+  return { provider, calls, fail: (value: boolean) => { failing = value; } };
+};
+
+describe('createQuoteBatcher', () => {
+  let clock = 0;
+  const now = () => clock;
+
+  beforeEach(() => {
+    clock = Date.parse('2026-10-19T12:00:00Z');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prices forty chips rendered together with one provider call', async () => {
+    const { provider, calls } = countingProvider();
+    const batcher = createQuoteBatcher(provider, { now });
+    const text = Array.from({ length: 5 }, () =>
+      'Bitcoin led ETH, Solana, XRP, Cardano and DOGE; BTC and Ethereum followed.'
+    ).join(' ');
+    const mentions = findTokenMentions(text);
+
+    expect(mentions).toHaveLength(40);
+    const quotes = await Promise.all(mentions.map(mention => batcher.get(mention.symbol)));
+
+    expect(calls).toHaveLength(1);
+    expect([...calls[0]].sort()).toEqual(['ADA', 'BTC', 'DOGE', 'ETH', 'SOL', 'XRP']);
+    expect(quotes[0]).toEqual(MARKET_QUOTE_FIXTURES.BTC);
+  });
+
+  it('answers from the cache until the TTL runs out', async () => {
+    const { provider, calls } = countingProvider();
+    const batcher = createQuoteBatcher(provider, { now });
+
+    await batcher.get('btc');
+    clock += DEFAULT_QUOTE_TTL_MS - 1;
+    await batcher.get('BTC');
+    expect(calls).toHaveLength(1);
+
+    clock += 1;
+    await batcher.get('BTC');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('caches a symbol the provider cannot price', async () => {
+    const { provider, calls } = countingProvider();
+    const batcher = createQuoteBatcher(provider, { now });
+
+    expect(await batcher.get('PEPE')).toBeNull();
+    expect(await batcher.get('PEPE')).toBeNull();
+    expect(calls).toHaveLength(1);
+  });
+
+  it('backs off a failing provider until the TTL runs out', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { provider, calls, fail } = countingProvider();
+    const batcher = createQuoteBatcher(provider, { now });
+    fail(true);
+
+    expect(await Promise.all(['BTC', 'ETH'].map(symbol => batcher.get(symbol)))).toEqual([null, null]);
+    expect(await batcher.get('BTC')).toBeNull();
+    expect(calls).toHaveLength(1);
+    expect(error).toHaveBeenCalledTimes(1);
+
+    fail(false);
+    clock += DEFAULT_QUOTE_TTL_MS;
+    expect(await batcher.get('BTC')).toEqual(MARKET_QUOTE_FIXTURES.BTC);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('keeps a quote without volume', async () => {
+    const batcher = createQuoteBatcher(createFixtureMarketProvider(), { now });
+
+    expect(await batcher.get('XCM')).toMatchObject({ symbol: 'XCM', change24h: null, volume24h: null });
+  });
+});
+
+describe('captureMarketSnapshot', () => {
+  it('stores no snapshot when the provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { provider, fail } = countingProvider();
+    fail(true);
+
+    expect(await captureMarketSnapshot(provider, ['BTC'])).toBeUndefined();
+  });
+});
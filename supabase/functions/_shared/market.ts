@@ -0,0 +1,249 @@
+// Market data for token chips and digest snapshots.
+//
+// Prices come through a pluggable provider, like digests and citation
+// metadata: CoinGecko's public API for live quotes, or recorded fixtures that
+// need no network. Providers price many symbols in one request, and
+// `createQuoteBatcher` collects the chips that render together into that one
+// request and caches the answers, so a digest with forty mentions costs a
+// single call. The generation pipeline also stores a snapshot of the tracked
+// tokens with each digest, so archived text can be read against the market it
+// described.
+
+import { MARKET_QUOTE_FIXTURES } from './fixtures/market-quotes.ts';
+
+export interface TokenQuote {
+  symbol: string;
+  // USD
+  price: number;
+  // Percent change over the last 24 hours
+  change24h: number | null;
+  // USD traded over the last 24 hours
+  volume24h: number | null;
+  asOf: string;
+}
+
+export interface MarketDataProvider {
+  name: string;
+  // Symbols the provider cannot price are left out of the result
+  getQuotes(symbols: string[]): Promise<TokenQuote[]>;
+}
+
+export type MarketDataProviderKind = 'coingecko' | 'fixture' | 'none';
+
+export interface MarketDataSettings {
+  kind: MarketDataProviderKind;
+  baseUrl?: string;
+  // Demo or pro key, sent as CoinGecko's key header
+  apiKey?: string;
+}
+
+// Prices of the tracked tokens when a digest was written
+export interface MarketSnapshot {
+  provider: string;
+  capturedAt: string;
+  quotes: TokenQuote[];
+}
+
+export interface QuoteBatcher {
+  // null when the provider has no price for the symbol or the request failed
+  get(symbol: string): Promise<TokenQuote | null>;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_COINGECKO_URL = 'https://api.coingecko.com/api/v3';
+
+export const DEFAULT_QUOTE_TTL_MS = 60 * 1000;
+
+// CoinGecko prices coins by id, not ticker
+export const COINGECKO_IDS: Record<string, string> = {
+  BTC: 'bitcoin',
+  ETH: 'ethereum',
+  SOL: 'solana',
+  XRP: 'ripple',
+  ADA: 'cardano',
+  DOGE: 'dogecoin',
+  DOT: 'polkadot',
+  HBAR: 'hedera-hashgraph',
+  XCM: 'coinmetro'
+};
+
+interface CoinGeckoPrice {
+  usd?: number;
+  usd_24h_change?: number;
+  usd_24h_vol?: number;
+  last_updated_at?: number;
+}
+
+export const createCoinGeckoProvider = (
+  options: { baseUrl?: string; apiKey?: string; timeoutMs?: number } = {}
+): MarketDataProvider => ({
+  name: 'coingecko',
+  async getQuotes(symbols) {
+    const ids = symbols.map(symbol => COINGECKO_IDS[symbol.toUpperCase()]).filter(Boolean);
+    if (ids.length === 0) return [];
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    try {
+      const params = new URLSearchParams({
+        ids: ids.join(','),
+        vs_currencies: 'usd',
+        include_24hr_change: 'true',
+        include_24hr_vol: 'true',
+        include_last_updated_at: 'true'
+      });
+      const baseUrl = options.baseUrl ?? DEFAULT_COINGECKO_URL;
+      const response = await fetch(`${baseUrl}/simple/price?${params}`, {
+        headers: {
+          Accept: 'application/json',
+          ...(options.apiKey
+            ? { [baseUrl.includes('pro-api') ? 'x-cg-pro-api-key' : 'x-cg-demo-api-key']: options.apiKey }
+            : {})
+        },
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`coingecko: price request returned ${response.status}`);
+      }
+
+      const data: Record<string, CoinGeckoPrice> = await response.json();
+      const now = new Date().toISOString();
+
+      return symbols.flatMap(symbol => {
+        const price = data[COINGECKO_IDS[symbol.toUpperCase()]];
+        if (typeof price?.usd !== 'number') return [];
+        return [{
+          symbol: symbol.toUpperCase(),
+          price: price.usd,
+          change24h: price.usd_24h_change ?? null,
+          volume24h: price.usd_24h_vol ?? null,
+          asOf: price.last_updated_at ? new Date(price.last_updated_at * 1000).toISOString() : now
+        }];
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+});
+
+export const createFixtureMarketProvider = (
+  quotes: Record<string, TokenQuote> = MARKET_QUOTE_FIXTURES
+): MarketDataProvider => ({
+  name: 'fixture',
+  async getQuotes(symbols) {
+    return symbols.flatMap(symbol => {
+      const quote = quotes[symbol.toUpperCase()];
+      return quote ? [{ ...quote }] : [];
+    });
+  }
+});
+
+// null for 'none': chips render without prices
+export const createMarketDataProvider = (settings: MarketDataSettings): MarketDataProvider | null => {
+  switch (settings.kind) {
+    case 'coingecko':
+      return createCoinGeckoProvider({ baseUrl: settings.baseUrl, apiKey: settings.apiKey });
+    case 'fixture':
+      return createFixtureMarketProvider();
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown market data provider: ${settings.kind as string}`);
+  }
+};
+
+export const isMarketDataProviderKind = (value: string | undefined): value is MarketDataProviderKind =>
+  value === 'coingecko' || value === 'fixture' || value === 'none';
+
+// MARKET_DATA_PROVIDER, MARKET_DATA_BASE_URL and MARKET_DATA_API_KEY select
+// the provider. Edge Functions pass `Deno.env.get`, as for the digest provider.
+export const marketDataFromEnv = (getEnv: (key: string) => string | undefined): MarketDataProvider | null => {
+  const kind = getEnv('MARKET_DATA_PROVIDER') ?? 'coingecko';
+  if (!isMarketDataProviderKind(kind)) {
+    throw new Error(`Unknown market data provider: ${kind}`);
+  }
+  return createMarketDataProvider({
+    kind,
+    baseUrl: getEnv('MARKET_DATA_BASE_URL'),
+    apiKey: getEnv('MARKET_DATA_API_KEY')
+  });
+};
+
+// A digest is worth publishing without prices, so a failed capture is logged
+// and the digest is stored without a snapshot
+export const captureMarketSnapshot = async (
+  provider: MarketDataProvider,
+  symbols: string[]
+): Promise<MarketSnapshot | undefined> => {
+  try {
+    const quotes = await provider.getQuotes(symbols);
+    if (quotes.length === 0) return undefined;
+    return { provider: provider.name, capturedAt: new Date().toISOString(), quotes };
+  } catch (err) {
+    console.error(`Error capturing market snapshot from ${provider.name}:`, err);
+    return undefined;
+  }
+};
+
+// Requests made within `windowMs` of each other share one provider call, and
+// answers are reused for `ttlMs`. A failed call is logged and answered with
+// null until the TTL runs out, so a missing price never breaks the digest and
+// a failing API is not hit once per chip.
+export const createQuoteBatcher = (
+  provider: MarketDataProvider,
+  options: { ttlMs?: number; windowMs?: number; now?: () => number } = {}
+): QuoteBatcher => {
+  const { ttlMs = DEFAULT_QUOTE_TTL_MS, windowMs = 10, now = Date.now } = options;
+  const cache = new Map<string, { quote: TokenQuote | null; fetchedAt: number }>();
+  const inFlight = new Map<string, Promise<TokenQuote | null>>();
+  let batch: { symbols: Set<string>; quotes: Promise<Map<string, TokenQuote>> } | null = null;
+
+  const flush = async (symbols: string[]): Promise<Map<string, TokenQuote>> => {
+    try {
+      const quotes = await provider.getQuotes(symbols);
+      return new Map(quotes.map(quote => [quote.symbol, quote]));
+    } catch (err) {
+      console.error(`Error fetching quotes from ${provider.name}:`, err);
+      return new Map();
+    }
+  };
+
+  const enqueue = (symbol: string): Promise<Map<string, TokenQuote>> => {
+    if (!batch) {
+      const symbols = new Set<string>();
+      const quotes = new Promise<Map<string, TokenQuote>>(resolve => {
+        setTimeout(() => {
+          batch = null;
+          resolve(flush([...symbols]));
+        }, windowMs);
+      });
+      batch = { symbols, quotes };
+    }
+    batch.symbols.add(symbol);
+    return batch.quotes;
+  };
+
+  return {
+    get(symbol) {
+      const key = symbol.toUpperCase();
+      const cached = cache.get(key);
+      if (cached && now() - cached.fetchedAt < ttlMs) {
+        return Promise.resolve(cached.quote);
+      }
+
+      const existing = inFlight.get(key);
+      if (existing) return existing;
+
+      const request = enqueue(key).then(quotes => {
+        const quote = quotes.get(key) ?? null;
+        cache.set(key, { quote, fetchedAt: now() });
+        inFlight.delete(key);
+        return quote;
+      });
+      inFlight.set(key, request);
+      return request;
+    }
+  };
+};
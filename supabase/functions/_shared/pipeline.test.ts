@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createFixtureFetcher } from './enrichment.ts';
+import { createFixtureMarketProvider } from './market.ts';
+import { generateDigest } from './pipeline.ts';
+import { createDigestProviderFromEnv, createStubProvider } from './providers.ts';
+import { TRACKED_TOKENS } from './tokens.ts';
+
+const TIMESTAMP = '2025-05-26T12:00:00.000Z';
+
+describe('generateDigest with the stub provider', () => {
+  it.each(['api-sources', 'inline-links', 'sources-block'])('publishes the %s fixture offline', async fixture => {
+    const onReject = vi.fn();
+
+    const generated = await generateDigest({
+      provider: createStubProvider({ fixture }),
+      promptVersion: 'daily-digest',
+      timestamp: TIMESTAMP,
+      edition: 'us-open',
+      onReject
+    });
+
+    expect(onReject).not.toHaveBeenCalled();
+    expect(generated.attempts).toBe(1);
+    expect(generated.quality.passed).toBe(true);
+    expect(generated.result).toMatchObject({ provider: 'stub', model: `fixture:${fixture}` });
+    expect(generated.usage.totalTokens).toBeGreaterThan(0);
+    expect(generated.digest).toMatchObject({
+      timestamp: TIMESTAMP,
+      edition: 'us-open',
+      promptVersion: generated.prompt.id
+    });
+    expect(generated.digest.citations.length).toBeGreaterThan(0);
+    expect(generated.digest.citationReport?.dangling).toEqual([]);
+    expect(generated.digest.sentiment).toMatchObject({ source: 'calculated', label: 'up' });
+  });
+
+  it('renders the prompt it was asked for', async () => {
+    const provider = createStubProvider({ fixture: 'api-sources' });
+    const spy = vi.spyOn(provider, 'generate');
+
+    const generated = await generateDigest({
+      provider,
+      promptVersion: 'daily-digest',
+      timestamp: TIMESTAMP,
+      domainFilter: ['coindesk.com', 'reuters.com']
+    });
+
+    expect(generated.prompt.id).toMatch(/^daily-digest@\d+$/);
+    expect(spy).toHaveBeenCalledWith(expect.objectContaining({
+      prompt: generated.prompt.text,
+      domainFilter: ['coindesk.com', 'reuters.com']
+    }));
+  });
+
+  it('replays the JSON fixture in structured mode', async () => {
+    const generated = await generateDigest({
+      provider: createStubProvider(),
+      promptVersion: 'daily-digest',
+      mode: 'structured',
+      timestamp: TIMESTAMP
+    });
+
+    expect(generated.requests).toBe(1);
+    expect(generated.digest.structured?.headline).toBe('Bitcoin breaks $65K resistance as institutional flows return');
+    // The provider's explicit call wins over the lexicon
+    expect(generated.digest.sentiment).toMatchObject({ source: 'api', label: 'up' });
+  });
+
+  it('runs from DIGEST_PROVIDER=stub without an API key', async () => {
+    const provider = createDigestProviderFromEnv(key => (key === 'DIGEST_PROVIDER' ? 'stub' : undefined));
+
+    const generated = await generateDigest({ provider, promptVersion: 'daily-digest', timestamp: TIMESTAMP });
+
+    expect(generated.quality.passed).toBe(true);
+  });
+
+  it('enriches citations and snapshots prices from fixtures', async () => {
+    const generated = await generateDigest({
+      provider: createStubProvider({ fixture: 'api-sources' }),
+      promptVersion: 'daily-digest',
+      timestamp: TIMESTAMP,
+      fetcher: createFixtureFetcher(),
+      marketData: createFixtureMarketProvider()
+    });
+
+    expect(generated.digest.citations.every(citation => citation.enrichedAt)).toBe(true);
+    expect(generated.digest.marketSnapshot?.provider).toBe('fixture');
+    expect(generated.digest.marketSnapshot?.quotes.map(quote => quote.symbol)).toEqual(
+      TRACKED_TOKENS.map(token => token.symbol)
+    );
+  });
+});
@@ -0,0 +1,196 @@
+// End-to-end digest generation: render the prompt, call the provider, run
+// the response through the processing pipeline and the quality gate. Shared by
+// the Edge Function and the client's direct-generation path.
+
+import {
+  processDigestResponse,
+  processStructuredDigestResponse,
+  StructuredDigestError
+} from './digest.ts';
+import { enrichDigest, type CitationFetcher, type FreshnessThresholds } from './enrichment.ts';
+import { captureMarketSnapshot, type MarketDataProvider } from './market.ts';
+import { renderPrompt, type PromptVariables, type RenderedPrompt } from './prompts.ts';
+import type { DigestGenerationResult, DigestProvider, DigestUsage } from './providers.ts';
+import { assessDigestQuality, QualityGateError, type QualityReport } from './quality.ts';
+import { assessDigestSentiment } from './sentiment.ts';
+import { buildDomainFilter, tagCitations, type NewsSource } from './sources.ts';
+import { STRUCTURED_DIGEST_SCHEMA } from './structured.ts';
+import { TRACKED_TOKENS } from './tokens.ts';
+import type { NewsDigest } from './types.ts';
+
+export type DigestOutputMode = 'prose' | 'structured';
+
+export interface GenerateDigestOptions {
+  provider: DigestProvider;
+  // Prompt used in prose mode and as the structured-mode fallback
+  promptVersion: string;
+  mode?: DigestOutputMode;
+  structuredPromptVersion?: string;
+  variables?: Partial<PromptVariables>;
+  // Allowlist from `news_sources`: builds the domain filter unless one is
+  // given, and tags each citation with its source
+  sources?: NewsSource[];
+  domainFilter?: string[];
+  temperature?: number;
+  timestamp?: string;
+  // Symbol recorded on per-token digests
+  token?: string;
+  // Edition recorded on the digest; its emphasis goes in `variables`
+  edition?: string;
+  // Resolves citation metadata once a digest passes the quality gate; null
+  // or absent skips enrichment
+  fetcher?: CitationFetcher | null;
+  freshness?: FreshnessThresholds;
+  // Prices the tracked tokens when a digest passes the quality gate; null or
+  // absent stores no snapshot. Leave it out for retrospectives: today's
+  // prices say nothing about the day they describe.
+  marketData?: MarketDataProvider | null;
+  // Generation attempts before giving up on the quality gate
+  maxAttempts?: number;
+  // Called with every digest the quality gate rejects, e.g. to quarantine it
+  onReject?: (rejected: RejectedDigest) => Promise<void> | void;
+}
+
+export interface RejectedDigest {
+  digest: NewsDigest;
+  prompt: RenderedPrompt;
+  report: QualityReport;
+  // 1-based
+  attempt: number;
+}
+
+export interface GeneratedDigest {
+  digest: NewsDigest;
+  prompt: RenderedPrompt;
+  // Final provider response the digest was built from
+  result: DigestGenerationResult;
+  // Summed over every provider call, including a failed structured attempt
+  // and digests rejected by the quality gate
+  usage: DigestUsage;
+  // Provider calls behind `usage`; more than `attempts` after a structured
+  // fallback
+  requests: number;
+  quality: QualityReport;
+  attempts: number;
+}
+
+type AttemptResult = Omit<GeneratedDigest, 'usage' | 'requests' | 'quality' | 'attempts'>;
+
+// Thrown in place of any error raised after the provider has been called, so
+// the run is still costed. The message is the original error's.
+export class DigestGenerationError extends Error {
+  constructor(
+    public readonly cause: unknown,
+    public readonly usage: DigestUsage,
+    public readonly requests: number
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'DigestGenerationError';
+  }
+}
+
+const addUsage = (a: DigestUsage, b: DigestUsage): DigestUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  completionTokens: a.completionTokens + b.completionTokens,
+  totalTokens: a.totalTokens + b.totalTokens
+});
+
+export const isDigestOutputMode = (value: string | undefined): value is DigestOutputMode =>
+  value === 'prose' || value === 'structured';
+
+// One provider round trip; structured mode falls back to prose when the
+// document fails validation. `spend` sees every provider response as it
+// arrives, before anything that could throw.
+const generateOnce = async (
+  options: GenerateDigestOptions,
+  spend: (result: DigestGenerationResult) => void
+): Promise<AttemptResult> => {
+  const {
+    provider,
+    mode = 'prose',
+    structuredPromptVersion = 'daily-digest-structured',
+    variables = {},
+    sources,
+    domainFilter = sources ? buildDomainFilter(sources) : undefined,
+    temperature = 0.7,
+    timestamp,
+    token,
+    edition
+  } = options;
+  const promptVariables = { domains: domainFilter, ...variables };
+  // Sentiment is scored here, once, and stored with the digest
+  const tag = (digest: NewsDigest): NewsDigest => ({
+    ...digest,
+    citations: sources ? tagCitations(digest.citations, sources) : digest.citations,
+    sentiment: assessDigestSentiment(digest)
+  });
+
+  if (mode === 'structured') {
+    const prompt = renderPrompt(structuredPromptVersion, promptVariables);
+    const result = await provider.generate({
+      prompt: prompt.text,
+      temperature,
+      domainFilter,
+      jsonSchema: STRUCTURED_DIGEST_SCHEMA
+    });
+    spend(result);
+
+    try {
+      const digest = processStructuredDigestResponse(result.text, result.sources, {
+        timestamp,
+        promptVersion: prompt.id
+      });
+      return { digest: tag({ ...digest, token, edition }), prompt, result };
+    } catch (err) {
+      if (!(err instanceof StructuredDigestError)) throw err;
+      console.warn('Structured digest rejected, falling back to prose:', err.errors);
+    }
+  }
+
+  const prompt = renderPrompt(options.promptVersion, promptVariables);
+  const result = await provider.generate({ prompt: prompt.text, temperature, domainFilter });
+  spend(result);
+
+  const digest = processDigestResponse(result.text, result.sources, {
+    timestamp,
+    promptVersion: prompt.id
+  });
+
+  return { digest: tag({ ...digest, token, edition }), prompt, result };
+};
+
+export const generateDigest = async (options: GenerateDigestOptions): Promise<GeneratedDigest> => {
+  const { maxAttempts = 2, onReject, fetcher, freshness, marketData } = options;
+  let usage: DigestUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let requests = 0;
+  let report: QualityReport | undefined;
+  const spend = (result: DigestGenerationResult) => {
+    usage = addUsage(usage, result.usage);
+    requests++;
+  };
+
+  try {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const generated = await generateOnce(options, spend);
+      report = assessDigestQuality(generated.digest);
+
+      if (report.passed) {
+        // Only the digest that will be published is worth the page fetches
+        const enriched = fetcher ? await enrichDigest(generated.digest, fetcher, freshness) : generated.digest;
+        const marketSnapshot = marketData
+          ? await captureMarketSnapshot(marketData, TRACKED_TOKENS.map(token => token.symbol))
+          : undefined;
+        const digest = marketSnapshot ? { ...enriched, marketSnapshot } : enriched;
+        return { ...generated, digest, usage, requests, quality: report, attempts: attempt };
+      }
+
+      console.warn(`Digest rejected by quality gate (attempt ${attempt}/${maxAttempts}):`, report.issues);
+      await onReject?.({ digest: generated.digest, prompt: generated.prompt, report, attempt });
+    }
+  } catch (err) {
+    if (requests === 0) throw err;
+    throw new DigestGenerationError(err, usage, requests);
+  }
+
+  throw new QualityGateError(report as QualityReport, usage, requests);
+};
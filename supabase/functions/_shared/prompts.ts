@@ -0,0 +1,161 @@
+// Versioned prompt templates.
+//
+// Templates are never edited in place: changing a prompt means adding a new
+// version, so the `prompt_version` recorded on each summary always points at
+// the exact text that produced it.
+
+export interface PromptVariables {
+  // Assets the digest should focus on
+  focusTokens: string[];
+  // Voice instructions appended to the prompt
+  tone: string;
+  // Date the digest is written for (YYYY-MM-DD)
+  date: string;
+  // Preferred source domains
+  domains: string[];
+  // Edition-specific instructions (see editions.ts)
+  emphasis: string;
+}
+
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  description: string;
+  template: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  name: string;
+  version: number;
+  // "<name>@<version>", as stored in daily_summaries.prompt_version
+  id: string;
+}
+
+export const DEFAULT_FOCUS_TOKENS = [
+  'Solana',
+  'Ethereum',
+  'Bitcoin',
+  'Polkadot',
+  'Hedera',
+  'Dogecoin',
+  'Coinmetro token'
+];
+
+export const DEFAULT_TONE =
+  'Use a sharp, direct voice that cuts through noise, think financial journalism meets street-smart trading floor. Avoid academic language; speak directly to traders bottom-line interests. Highlight potential opportunities and risks in a way that feels like insider knowledge, not generic reporting.';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'daily-digest',
+    version: 1,
+    description: 'Original market-wide prose digest',
+    template: 'Provide a unformatted concise but detailed analysis of todays most recent cryptocurrency market developments focusing on {{focusTokens}} and other major tokens from multiple sources, including price movements only if major, significant news, and prevailing market sentiment with an emphasis on foresight. Only use information that is up-to-date as of the time of this request. Focus on actionable insights for traders. Sources should be diverse and not from one source. Include citations for your sources and number them sequentially. Format the response in clear paragraphs with proper spacing. Prioritize clarity, urgency, and immediate tradable insights. {{tone}} Do not refer to the daily market as "todays market"—refer to it as "the market." Only use information that is current as of the time of this request; do not include outdated or speculative data.'
+  },
+  {
+    name: 'daily-digest',
+    version: 2,
+    description: 'Anchors the digest to an explicit date and lists preferred sources',
+    template: 'Provide a unformatted concise but detailed analysis of the most recent cryptocurrency market developments as of {{date}}, focusing on {{focusTokens}} and other major tokens from multiple sources, including price movements only if major, significant news, and prevailing market sentiment with an emphasis on foresight. Only use information published on or shortly before {{date}}. Focus on actionable insights for traders. Sources should be diverse and not from one source; prefer {{domains}}. Include citations for your sources and number them sequentially. Format the response in clear paragraphs with proper spacing. Prioritize clarity, urgency, and immediate tradable insights. {{tone}} Do not refer to the daily market as "todays market"—refer to it as "the market." Do not include outdated or speculative data.'
+  },
+  {
+    name: 'token-digest',
+    version: 1,
+    description: 'Short per-asset digest; focusTokens holds the single asset name',
+    template: 'Begin with a single line reading "SENTIMENT: BULLISH", "SENTIMENT: BEARISH" or "SENTIMENT: NEUTRAL" for {{focusTokens}}. Then provide a short, unformatted digest of the most recent developments for {{focusTokens}} as of {{date}} in two or three short paragraphs: price action only if significant, news, and prevailing sentiment, ending with an actionable takeaway for traders. Only use information published on or shortly before {{date}}. Sources should be diverse and not from one source; prefer {{domains}}. Include citations for your sources and number them sequentially. {{tone}}'
+  },
+  {
+    name: 'daily-digest-structured',
+    version: 1,
+    description: 'JSON document for structured mode; validated against STRUCTURED_DIGEST_SCHEMA',
+    template: 'Analyse the most recent cryptocurrency market developments as of {{date}}, focusing on {{focusTokens}} and other major tokens, using diverse sources (prefer {{domains}}). Only use information published on or shortly before {{date}}. Respond with a single JSON object and nothing else, using exactly these fields: "headline" (one sentence), "sections" (array of {"heading", "claims"}), "tokens" (array of {"symbol", "note", "sentiment", "citations"} for each focus token with meaningful news), "sentiment" ({"label", "confidence", "rationale"}), "risks" and "opportunities" (arrays of claims). A claim is {"text", "citations"} where "citations" lists the numbers of the sources supporting it, numbered sequentially from 1. "sentiment" and "label" values are "bullish", "bearish" or "neutral"; "confidence" is a number between 0 and 1. If you cannot attach sources as metadata, add "sources" as an array of {"number", "url", "title"}. Do not use markdown inside strings. {{tone}}'
+  },
+  {
+    name: 'daily-digest',
+    version: 3,
+    description: 'Adds the trading-session edition emphasis',
+    template: 'Provide a unformatted concise but detailed analysis of the most recent cryptocurrency market developments as of {{date}}, focusing on {{focusTokens}} and other major tokens from multiple sources, including price movements only if major, significant news, and prevailing market sentiment with an emphasis on foresight. Only use information published on or shortly before {{date}}. Focus on actionable insights for traders. Sources should be diverse and not from one source; prefer {{domains}}. Include citations for your sources and number them sequentially. Format the response in clear paragraphs with proper spacing. Prioritize clarity, urgency, and immediate tradable insights. {{tone}} Do not refer to the daily market as "todays market"—refer to it as "the market." Do not include outdated or speculative data. {{emphasis}}'
+  },
+  {
+    name: 'token-digest',
+    version: 2,
+    description: 'Per-asset digest with the trading-session edition emphasis',
+    template: 'Begin with a single line reading "SENTIMENT: BULLISH", "SENTIMENT: BEARISH" or "SENTIMENT: NEUTRAL" for {{focusTokens}}. Then provide a short, unformatted digest of the most recent developments for {{focusTokens}} as of {{date}} in two or three short paragraphs: price action only if significant, news, and prevailing sentiment, ending with an actionable takeaway for traders. Only use information published on or shortly before {{date}}. Sources should be diverse and not from one source; prefer {{domains}}. Include citations for your sources and number them sequentially. {{tone}} {{emphasis}}'
+  },
+  {
+    name: 'retrospective-digest',
+    version: 1,
+    description: 'Backfilled digest for a past day the scheduled run missed',
+    template: 'Write a retrospective, unformatted analysis of the cryptocurrency market on {{date}}, focusing on {{focusTokens}} and other major tokens from multiple sources: significant price movements, news, and the prevailing market sentiment that day. This digest is written after the fact to fill a gap in the archive, so describe {{date}} in the past tense and only use information published on or before {{date}}; do not mention anything that happened later. Sources should be diverse and not from one source; prefer {{domains}}. Include citations for your sources and number them sequentially. Format the response in clear paragraphs with proper spacing. {{tone}}'
+  },
+  {
+    name: 'daily-digest-structured',
+    version: 2,
+    description: 'Structured digest with the trading-session edition emphasis',
+    template: 'Analyse the most recent cryptocurrency market developments as of {{date}}, focusing on {{focusTokens}} and other major tokens, using diverse sources (prefer {{domains}}). Only use information published on or shortly before {{date}}. {{emphasis}} Respond with a single JSON object and nothing else, using exactly these fields: "headline" (one sentence), "sections" (array of {"heading", "claims"}), "tokens" (array of {"symbol", "note", "sentiment", "citations"} for each focus token with meaningful news), "sentiment" ({"label", "confidence", "rationale"}), "risks" and "opportunities" (arrays of claims). A claim is {"text", "citations"} where "citations" lists the numbers of the sources supporting it, numbered sequentially from 1. "sentiment" and "label" values are "bullish", "bearish" or "neutral"; "confidence" is a number between 0 and 1. If you cannot attach sources as metadata, add "sources" as an array of {"number", "url", "title"}. Do not use markdown inside strings. {{tone}}'
+  }
+];
+
+export const promptId = (name: string, version: number): string => `${name}@${version}`;
+
+export const getPromptTemplate = (name: string, version?: number): PromptTemplate => {
+  const candidates = PROMPT_TEMPLATES.filter(t => t.name === name);
+  if (candidates.length === 0) {
+    throw new Error(`Unknown prompt template: ${name}`);
+  }
+
+  if (version === undefined) {
+    return candidates.reduce((latest, t) => (t.version > latest.version ? t : latest));
+  }
+
+  const template = candidates.find(t => t.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt version: ${promptId(name, version)}`);
+  }
+  return template;
+};
+
+// Accepts "daily-digest" (latest) or "daily-digest@2"
+export const parsePromptId = (id: string): { name: string; version?: number } => {
+  const [name, version] = id.split('@');
+  return { name, version: version ? parseInt(version, 10) : undefined };
+};
+
+export const renderPrompt = (
+  id: string,
+  variables: Partial<PromptVariables> = {}
+): RenderedPrompt => {
+  const { name, version } = parsePromptId(id);
+  const template = getPromptTemplate(name, version);
+
+  const values: PromptVariables = {
+    focusTokens: variables.focusTokens ?? DEFAULT_FOCUS_TOKENS,
+    tone: variables.tone ?? DEFAULT_TONE,
+    date: variables.date ?? new Date().toISOString().slice(0, 10),
+    domains: variables.domains ?? [],
+    emphasis: variables.emphasis ?? ''
+  };
+
+  const replacements: Record<keyof PromptVariables, string> = {
+    focusTokens: values.focusTokens.join(' '),
+    tone: values.tone,
+    date: values.date,
+    domains: values.domains.join(', ') || 'reputable financial and crypto news outlets',
+    emphasis: values.emphasis
+  };
+
+  // An empty variable must not leave a double space behind
+  const text = template.template
+    .replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) =>
+      key in replacements ? replacements[key as keyof PromptVariables] : placeholder
+    )
+    .replace(/ {2,}/g, ' ')
+    .trim();
+
+  return {
+    text,
+    name: template.name,
+    version: template.version,
+    id: promptId(template.name, template.version)
+  };
+};
@@ -0,0 +1,292 @@
+// Pluggable LLM providers for digest generation.
+//
+// Every provider turns a prompt into text, sources and token usage. Providers
+// only depend on `fetch`, so the same implementations run in the browser and
+// in the Edge Function runtime.
+
+import type { DigestSource } from './digest.ts';
+import { DIGEST_FIXTURES, type DigestFixture } from './fixtures/digest-responses.ts';
+
+export interface DigestUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface DigestGenerationRequest {
+  prompt: string;
+  temperature?: number;
+  // Restrict web search to these domains (ignored by providers without search)
+  domainFilter?: string[];
+  // Ask for JSON matching this schema (structured mode)
+  jsonSchema?: Record<string, unknown>;
+}
+
+export interface DigestGenerationResult {
+  text: string;
+  sources: DigestSource[];
+  usage: DigestUsage;
+  provider: string;
+  model: string;
+}
+
+export interface DigestProvider {
+  name: string;
+  model: string;
+  generate(request: DigestGenerationRequest): Promise<DigestGenerationResult>;
+}
+
+export type DigestProviderKind = 'perplexity' | 'openai-compatible' | 'stub';
+
+export interface DigestProviderSettings {
+  kind: DigestProviderKind;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  // Full chat-completions URL, for proxies that do not follow the baseUrl layout
+  endpoint?: string;
+  // Stub only: pin a named fixture instead of picking one from the prompt
+  fixture?: string;
+  timeoutMs?: number;
+}
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;
+  endpoint?: string;
+  model: string;
+  apiKey?: string;
+  name?: string;
+  timeoutMs?: number;
+  // Extra fields merged into the request body
+  buildExtraBody?: (request: DigestGenerationRequest) => Record<string, unknown>;
+  // Extract sources from provider-specific response fields
+  extractSources?: (data: ChatCompletionResponse) => DigestSource[];
+}
+
+export interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+  citations?: string[];
+  search_results?: Array<{ title?: string; url?: string }>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const EMPTY_USAGE: DigestUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+const toUsage = (usage: ChatCompletionResponse['usage']): DigestUsage => {
+  if (!usage) return EMPTY_USAGE;
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens
+  };
+};
+
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): DigestProvider => {
+  const name = options.name ?? 'openai-compatible';
+  const endpoint = options.endpoint ?? `${options.baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  return {
+    name,
+    model: options.model,
+    async generate(request) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      try {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (options.apiKey) {
+          headers.Authorization = `Bearer ${options.apiKey}`;
+        }
+
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model: options.model,
+            messages: [{ role: 'user', content: request.prompt }],
+            temperature: request.temperature,
+            ...(request.jsonSchema && {
+              response_format: { type: 'json_schema', json_schema: { name: 'digest', schema: request.jsonSchema } }
+            }),
+            ...options.buildExtraBody?.(request)
+          }),
+          signal: controller.signal
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text().catch(() => 'Unknown error');
+
+          if (response.status === 401) {
+            throw new Error(`${name}: API key is invalid or not properly configured`);
+          }
+
+          throw new Error(`${name}: API Error ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ''}`);
+        }
+
+        const data: ChatCompletionResponse = await response.json();
+        const text = data?.choices?.[0]?.message?.content;
+
+        if (!text) {
+          throw new Error(`${name}: invalid response format from API`);
+        }
+
+        return {
+          text,
+          sources: options.extractSources?.(data) ?? [],
+          usage: toUsage(data.usage),
+          provider: name,
+          model: options.model
+        };
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+  };
+};
+
+export const createPerplexityProvider = (
+  options: { apiKey?: string; baseUrl?: string; endpoint?: string; model?: string; timeoutMs?: number } = {}
+): DigestProvider =>
+  createOpenAICompatibleProvider({
+    name: 'perplexity',
+    baseUrl: options.baseUrl ?? 'https://api.perplexity.ai',
+    endpoint: options.endpoint,
+    model: options.model ?? 'sonar-pro',
+    apiKey: options.apiKey,
+    timeoutMs: options.timeoutMs,
+    buildExtraBody: (request) =>
+      request.domainFilter?.length ? { search_domain_filter: request.domainFilter } : {},
+    extractSources: (data) => {
+      if (data.search_results?.length) {
+        return data.search_results.map(result => ({ url: result.url, title: result.title }));
+      }
+      return (data.citations ?? []).map(url => ({ url }));
+    }
+  });
+
+// Stable string hash so the stub picks the same fixture for the same prompt
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const countTokens = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+export const createStubProvider = (
+  options: { fixtures?: Record<string, DigestFixture>; fixture?: string } = {}
+): DigestProvider => {
+  const fixtures = options.fixtures ?? DIGEST_FIXTURES;
+  const names = Object.keys(fixtures).sort();
+
+  if (names.length === 0) {
+    throw new Error('stub: no fixtures available');
+  }
+
+  return {
+    name: 'stub',
+    model: 'fixture',
+    async generate(request) {
+      // Only replay fixtures of the requested format
+      const format = request.jsonSchema ? 'json' : 'prose';
+      const candidates = names.filter(n => (fixtures[n].format ?? 'prose') === format);
+      const pool = candidates.length > 0 ? candidates : names;
+      const name = options.fixture ?? pool[hashString(request.prompt) % pool.length];
+      const fixture = fixtures[name];
+
+      if (!fixture) {
+        throw new Error(`stub: unknown fixture "${name}"`);
+      }
+
+      const promptTokens = countTokens(request.prompt);
+      const completionTokens = countTokens(fixture.text);
+
+      return {
+        text: fixture.text,
+        sources: fixture.sources.map(source => ({ ...source })),
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+        provider: 'stub',
+        model: `fixture:${name}`
+      };
+    }
+  };
+};
+
+// Try each provider in order, returning the first successful response
+export const createFallbackProvider = (providers: DigestProvider[]): DigestProvider => {
+  if (providers.length === 0) {
+    throw new Error('createFallbackProvider requires at least one provider');
+  }
+
+  return {
+    name: providers[0].name,
+    model: providers[0].model,
+    async generate(request) {
+      let lastError: unknown;
+      for (const provider of providers) {
+        try {
+          return await provider.generate(request);
+        } catch (err) {
+          console.error(`Provider ${provider.name} failed:`, err);
+          lastError = err;
+        }
+      }
+      throw lastError;
+    }
+  };
+};
+
+export const createDigestProvider = (settings: DigestProviderSettings): DigestProvider => {
+  switch (settings.kind) {
+    case 'perplexity':
+      return createPerplexityProvider(settings);
+    case 'openai-compatible':
+      if ((!settings.baseUrl && !settings.endpoint) || !settings.model) {
+        throw new Error('openai-compatible provider requires a baseUrl or endpoint and a model');
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl: settings.baseUrl ?? '',
+        endpoint: settings.endpoint,
+        model: settings.model,
+        apiKey: settings.apiKey,
+        timeoutMs: settings.timeoutMs
+      });
+    case 'stub':
+      return createStubProvider({ fixture: settings.fixture });
+    default:
+      throw new Error(`Unknown digest provider: ${settings.kind as string}`);
+  }
+};
+
+export const isDigestProviderKind = (value: string | undefined): value is DigestProviderKind =>
+  value === 'perplexity' || value === 'openai-compatible' || value === 'stub';
+
+// Provider configured from DIGEST_* variables. Edge Functions pass
+// `Deno.env.get`; keeping the lookup injectable keeps this module isomorphic.
+export const createDigestProviderFromEnv = (
+  getEnv: (key: string) => string | undefined
+): DigestProvider => {
+  const kind = getEnv('DIGEST_PROVIDER') ?? 'perplexity';
+  const apiKey = getEnv('DIGEST_API_KEY') ?? getEnv('VITE_PERPLEXITY_API_KEY');
+
+  if (!isDigestProviderKind(kind)) {
+    throw new Error(`Unknown digest provider: ${kind}`);
+  }
+
+  if (kind !== 'stub' && !apiKey) {
+    throw new Error('Missing API key for digest provider');
+  }
+
+  return createDigestProvider({
+    kind,
+    apiKey,
+    model: getEnv('DIGEST_MODEL'),
+    baseUrl: getEnv('DIGEST_BASE_URL')
+  });
+};
@@ -0,0 +1,179 @@
+// Pre-insert quality gate.
+//
+// Scores a processed digest before it is published. Digests that fail are
+// written to `quarantined_summaries` with the reasons and regenerated instead
+// (see `generateDigest`).
+
+import { getDomainName } from './digest.ts';
+import type { DigestUsage } from './providers.ts';
+import type { NewsDigest } from './types.ts';
+
+export type QualityCheck =
+  | 'length'
+  | 'paragraph-citations'
+  | 'source-diversity'
+  | 'markdown-residue'
+  | 'stale-dates';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  message: string;
+}
+
+export interface QualityReport {
+  passed: boolean;
+  // Share of checks passed, 0..1
+  score: number;
+  issues: QualityIssue[];
+}
+
+export interface QualityThresholds {
+  minLength: number;
+  maxLength: number;
+  // Share of body paragraphs that must carry at least one [n] marker
+  minParagraphCoverage: number;
+  minDistinctDomains: number;
+  // Full dates older than this (relative to the digest timestamp) are stale
+  maxDateAgeDays: number;
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minLength: 600,
+  maxLength: 6000,
+  minParagraphCoverage: 0.5,
+  minDistinctDomains: 3,
+  maxDateAgeDays: 2
+};
+
+// Per-token digests are two or three short paragraphs
+export const TOKEN_QUALITY_THRESHOLDS: QualityThresholds = {
+  ...DEFAULT_QUALITY_THRESHOLDS,
+  minLength: 200,
+  maxLength: 2500,
+  minDistinctDomains: 2
+};
+
+const CHECKS: QualityCheck[] = [
+  'length',
+  'paragraph-citations',
+  'source-diversity',
+  'markdown-residue',
+  'stale-dates'
+];
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const MONTH_DAY_YEAR = new RegExp(
+  `\\b(${MONTHS.join('|')})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`,
+  'gi'
+);
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+
+const RESIDUE_PATTERNS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /\*\*|__/, label: 'bold markers' },
+  { pattern: /^#{1,6}\s/m, label: 'headings' },
+  { pattern: /\[[^\]]+\]\(https?:\/\//, label: 'markdown links' },
+  { pattern: /^\s*(?:Sources?|Citations?|References?)\s*:/im, label: 'a "Sources:" block' },
+  { pattern: /^\s*\[\d+\]\s+\S/m, label: 'a numbered source list' },
+  { pattern: /https?:\/\/\S+/, label: 'raw URLs' },
+  { pattern: /```/, label: 'code fences' }
+];
+
+// Paragraphs that read as section headers ("Key Risks:") carry no claims
+const isHeader = (paragraph: string): boolean =>
+  paragraph.length < 80 && paragraph.endsWith(':');
+
+const findDates = (content: string): Date[] => {
+  const dates: Date[] = [];
+
+  for (const match of content.matchAll(MONTH_DAY_YEAR)) {
+    const month = MONTHS.indexOf(match[1].toLowerCase());
+    dates.push(new Date(Date.UTC(parseInt(match[3], 10), month, parseInt(match[2], 10))));
+  }
+
+  for (const match of content.matchAll(ISO_DATE)) {
+    const [, year, month, day] = match.map(Number);
+    dates.push(new Date(Date.UTC(year, month - 1, day)));
+  }
+
+  return dates.filter(date => !isNaN(date.getTime()));
+};
+
+export const thresholdsFor = (digest: NewsDigest): QualityThresholds =>
+  digest.token ? TOKEN_QUALITY_THRESHOLDS : DEFAULT_QUALITY_THRESHOLDS;
+
+export const assessDigestQuality = (
+  digest: NewsDigest,
+  thresholds: QualityThresholds = thresholdsFor(digest)
+): QualityReport => {
+  const issues: QualityIssue[] = [];
+  const content = digest.content.trim();
+
+  if (content.length < thresholds.minLength || content.length > thresholds.maxLength) {
+    issues.push({
+      check: 'length',
+      message: `content is ${content.length} characters; expected ${thresholds.minLength}-${thresholds.maxLength}`
+    });
+  }
+
+  const paragraphs = content.split(/\n\n+/).map(p => p.trim()).filter(p => p && !isHeader(p));
+  const cited = paragraphs.filter(p => /\[\d+\]/.test(p)).length;
+  const coverage = paragraphs.length > 0 ? cited / paragraphs.length : 0;
+  if (coverage < thresholds.minParagraphCoverage) {
+    issues.push({
+      check: 'paragraph-citations',
+      message: `${cited} of ${paragraphs.length} paragraphs cite a source; expected at least ${Math.round(thresholds.minParagraphCoverage * 100)}%`
+    });
+  }
+
+  const domains = new Set(digest.citations.map(c => getDomainName(c.url)));
+  if (domains.size < thresholds.minDistinctDomains) {
+    issues.push({
+      check: 'source-diversity',
+      message: `sources come from ${domains.size} distinct domains; expected at least ${thresholds.minDistinctDomains}`
+    });
+  }
+
+  const residue = RESIDUE_PATTERNS.filter(({ pattern }) => pattern.test(content)).map(({ label }) => label);
+  if (residue.length > 0) {
+    issues.push({
+      check: 'markdown-residue',
+      message: `content still contains ${residue.join(', ')}`
+    });
+  }
+
+  const generatedAt = new Date(digest.timestamp).getTime();
+  const oldest = generatedAt - thresholds.maxDateAgeDays * 24 * 60 * 60 * 1000;
+  const stale = findDates(content).filter(date => date.getTime() < oldest);
+  if (stale.length > 0) {
+    const mentioned = [...new Set(stale.map(date => date.toISOString().slice(0, 10)))];
+    issues.push({
+      check: 'stale-dates',
+      message: `mentions dates more than ${thresholds.maxDateAgeDays} days old: ${mentioned.join(', ')}`
+    });
+  }
+
+  const failed = new Set(issues.map(issue => issue.check));
+
+  return {
+    passed: issues.length === 0,
+    score: (CHECKS.length - failed.size) / CHECKS.length,
+    issues
+  };
+};
+
+export class QualityGateError extends Error {
+  // `usage` covers every rejected attempt, and `requests` counts the provider
+  // calls behind it, so failed runs are still costed
+  constructor(
+    public readonly report: QualityReport,
+    public readonly usage?: DigestUsage,
+    public readonly requests?: number
+  ) {
+    super(`Digest failed quality gate: ${report.issues.map(issue => issue.message).join('; ')}`);
+    this.name = 'QualityGateError';
+  }
+}
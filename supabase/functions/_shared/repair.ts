@@ -0,0 +1,229 @@
+// Archive repair planning.
+//
+// Classifies problems in stored `daily_summaries` rows and works out a fix for
+// each: re-extract citations and clean the content where the original text
+// still allows it, otherwise hide the row. Planning is pure so a dry run can
+// show exactly what would change before anything is written.
+
+import { checkCitations, type CitationReport } from './citations.ts';
+import { cleanDigestMarkdown, processDigestResponse, splitSourcesBlock } from './digest.ts';
+import type { Citation, DailySummaryRow } from './types.ts';
+
+export type ArchiveProblem =
+  | 'empty-citations'
+  | 'broken-citations'
+  | 'sources-block'
+  | 'raw-markdown'
+  | 'duplicate-content';
+
+export type RepairAction = 'fix' | 'hide' | 'none';
+
+export interface RowRepair {
+  id: string;
+  timestamp: string;
+  problems: ArchiveProblem[];
+  action: RepairAction;
+  // Why the row is hidden
+  reason?: string;
+  // New column values for 'fix'
+  update?: {
+    content: string;
+    citations: Citation[];
+    citation_report: CitationReport;
+  };
+  // Line diff of content and citations for the dry-run report
+  diff: string[];
+}
+
+export interface RepairPlan {
+  scanned: number;
+  repairs: RowRepair[];
+  counts: Record<ArchiveProblem | RepairAction, number>;
+}
+
+const MARKDOWN_PATTERNS = [/\*\*/, /^#{1,6}\s/m, /\[[^\]]+\]\(https?:\/\/[^\s)]+\)/];
+
+// The client used to fill these in at read time; they link nowhere
+const isBrokenCitation = (citation: Partial<Citation>): boolean =>
+  !citation.url || !/^https?:\/\//.test(citation.url) || /^Source \d+$/.test(citation.title ?? '');
+
+const normalizeForDuplicates = (content: string): string =>
+  content.toLowerCase().replace(/\[\d+\]/g, '').replace(/\s+/g, ' ').trim();
+
+export const classifyRow = (row: DailySummaryRow): ArchiveProblem[] => {
+  const problems: ArchiveProblem[] = [];
+  const citations = Array.isArray(row.citations) ? row.citations : [];
+
+  if (citations.length === 0) {
+    problems.push('empty-citations');
+  } else if (citations.some(isBrokenCitation)) {
+    problems.push('broken-citations');
+  }
+
+  // Structured rows derive their content from the JSON document
+  if (!row.structured) {
+    if (splitSourcesBlock(row.content).block !== null) {
+      problems.push('sources-block');
+    }
+    if (MARKDOWN_PATTERNS.some(pattern => pattern.test(row.content))) {
+      problems.push('raw-markdown');
+    }
+  }
+
+  return problems;
+};
+
+// Minimal line diff (longest common subsequence), good enough for digests of
+// a few dozen lines
+export const diffLines = (before: string[], after: string[]): string[] => {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      i++;
+      j++;
+    } else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push(`- ${before[i++]}`);
+    } else {
+      lines.push(`+ ${after[j++]}`);
+    }
+  }
+  return lines;
+};
+
+const citationLines = (citations: Partial<Citation>[]): string[] =>
+  citations.map(c => `[${c.number}] ${c.title ?? ''} <${c.url ?? ''}>${c.isCited === false ? ' (unused)' : ''}`);
+
+const contentLines = (content: string): string[] =>
+  content.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Prefer citations re-extracted from the row's own text when the stored ones
+// are missing or broken; otherwise keep the stored ones that still link
+const repairContent = (row: DailySummaryRow, problems: ArchiveProblem[]) => {
+  const stored = (Array.isArray(row.citations) ? row.citations : []).filter(c => !isBrokenCitation(c));
+
+  if (problems.includes('empty-citations') || problems.includes('broken-citations')) {
+    try {
+      const digest = processDigestResponse(row.content, [], { timestamp: row.timestamp });
+      return {
+        content: digest.content,
+        citations: digest.citations,
+        citation_report: digest.citationReport as CitationReport
+      };
+    } catch (err) {
+      if (stored.length === 0) throw err;
+    }
+  }
+
+  const checked = checkCitations(cleanDigestMarkdown(splitSourcesBlock(row.content).body), stored);
+  return {
+    content: checked.content,
+    citations: checked.citations,
+    citation_report: checked.report
+  };
+};
+
+export const planRowRepair = (row: DailySummaryRow, duplicateOf?: string): RowRepair => {
+  const problems = classifyRow(row);
+  const base = { id: row.id, timestamp: row.timestamp, diff: [] as string[] };
+
+  if (duplicateOf) {
+    return {
+      ...base,
+      problems: [...problems, 'duplicate-content'],
+      action: 'hide',
+      reason: `duplicate of ${duplicateOf}`
+    };
+  }
+
+  if (problems.length === 0) {
+    return { ...base, problems, action: 'none' };
+  }
+
+  // Structured rows cannot be re-parsed from their derived content
+  if (row.structured) {
+    return problems.includes('empty-citations')
+      ? { ...base, problems, action: 'hide', reason: 'structured digest has no citations' }
+      : { ...base, problems, action: 'none' };
+  }
+
+  try {
+    const update = repairContent(row, problems);
+    return {
+      ...base,
+      problems,
+      action: 'fix',
+      update,
+      diff: [
+        ...diffLines(contentLines(row.content), contentLines(update.content)),
+        ...diffLines(citationLines(row.citations ?? []), citationLines(update.citations))
+      ]
+    };
+  } catch (err) {
+    return {
+      ...base,
+      problems,
+      action: 'hide',
+      reason: `citations could not be re-extracted: ${err instanceof Error ? err.message : String(err)}`
+    };
+  }
+};
+
+// Rows must be ordered oldest first so the original of a duplicate is kept
+export const planArchiveRepair = (rows: DailySummaryRow[]): RepairPlan => {
+  const firstByContent = new Map<string, string>();
+  const repairs: RowRepair[] = [];
+  const counts = {
+    'empty-citations': 0,
+    'broken-citations': 0,
+    'sources-block': 0,
+    'raw-markdown': 0,
+    'duplicate-content': 0,
+    fix: 0,
+    hide: 0,
+    none: 0
+  };
+
+  for (const row of rows) {
+    const key = `${row.token ?? ''}:${normalizeForDuplicates(row.content)}`;
+    const duplicateOf = firstByContent.get(key);
+    if (!duplicateOf) firstByContent.set(key, row.id);
+
+    const repair = planRowRepair(row, duplicateOf);
+    repair.problems.forEach(problem => counts[problem]++);
+    counts[repair.action]++;
+    repairs.push(repair);
+  }
+
+  return { scanned: rows.length, repairs, counts };
+};
+
+export const formatRepairReport = (plan: RepairPlan, dryRun: boolean): string => {
+  const lines = [
+    `${dryRun ? 'Dry run: ' : ''}scanned ${plan.scanned} rows, ${plan.counts.fix} to fix, ${plan.counts.hide} to hide`,
+    `Problems: ${(['empty-citations', 'broken-citations', 'sources-block', 'raw-markdown', 'duplicate-content'] as const)
+      .map(problem => `${problem} ${plan.counts[problem]}`)
+      .join(', ')}`
+  ];
+
+  for (const repair of plan.repairs) {
+    if (repair.action === 'none') continue;
+    lines.push('', `${repair.action.toUpperCase()} ${repair.id} (${repair.timestamp}): ${repair.problems.join(', ')}`);
+    if (repair.reason) lines.push(`  ${repair.reason}`);
+    lines.push(...repair.diff.map(line => `  ${line}`));
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CORRUPTED_RESPONSES } from './fixtures/corrupted-responses.ts';
+import { DIGEST_FIXTURES, type DigestFixture } from './fixtures/digest-responses.ts';
+import { DigestGenerationError, generateDigest } from './pipeline.ts';
+import { createStubProvider, type DigestProvider } from './providers.ts';
+import { QualityGateError } from './quality.ts';
+import { failedRunRow, succeededRunRow, type RunContext } from './runs.ts';
+
+const FIXTURES: Record<string, DigestFixture> = {
+  ...DIGEST_FIXTURES,
+  'too-short': { text: 'Bitcoin rose 2% today[1].', sources: [{ url: 'https://www.coindesk.com/markets' }] },
+  corrupted: { text: CORRUPTED_RESPONSES.de4a6175, sources: [] },
+  'invalid-json': { format: 'json', text: '{"headline": "truncated', sources: [] }
+};
+
+// Replays the named fixtures in order, priced as Perplexity's sonar model
+// (1 USD per million tokens plus 0.005 USD per request)
+const replay = (...names: string[]): DigestProvider => {
+  const calls = [...names];
+  return {
+    name: 'perplexity',
+    model: 'sonar',
+    async generate(request) {
+      const name = calls.shift();
+      if (!name) throw new Error('perplexity: 503 Service Unavailable');
+      const result = await createStubProvider({ fixtures: FIXTURES, fixture: name }).generate(request);
+      return { ...result, provider: 'perplexity', model: 'sonar' };
+    }
+  };
+};
+
+const context = (provider: DigestProvider): RunContext => ({ trigger: 'cron', provider });
+
+const options = { promptVersion: 'daily-digest', timestamp: '2025-05-26T12:00:00.000Z' };
+
+describe('generation run costs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('costs a run that throws after an earlier attempt was rejected', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = replay('too-short', 'corrupted');
+
+    const error = await generateDigest({ ...options, provider }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(DigestGenerationError);
+    expect((error as Error).message).toBe('Invalid response from provider: citations are empty or corrupted');
+    const { usage, requests } = error as DigestGenerationError;
+    expect(requests).toBe(2);
+
+    const row = failedRunRow(context(provider), Date.now(), error);
+    expect(row.total_tokens).toBe(usage.totalTokens);
+    expect(usage.totalTokens).toBeGreaterThan(0);
+    expect(row.cost_usd).toBeCloseTo(usage.totalTokens / 1_000_000 + 2 * 0.005, 6);
+  });
+
+  it('costs a run that fails when the provider call itself fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = replay('too-short');
+
+    const error = await generateDigest({ ...options, provider }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(DigestGenerationError);
+    expect((error as DigestGenerationError).requests).toBe(1);
+    expect(failedRunRow(context(provider), Date.now(), error).cost_usd).toBeGreaterThan(0.005);
+  });
+
+  it('costs every attempt rejected by the quality gate', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = replay('too-short', 'too-short');
+
+    const error = await generateDigest({ ...options, provider }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(QualityGateError);
+    expect((error as QualityGateError).requests).toBe(2);
+    const row = failedRunRow(context(provider), Date.now(), error);
+    expect(row.cost_usd).toBeCloseTo((row.total_tokens ?? 0) / 1_000_000 + 2 * 0.005, 6);
+  });
+
+  it('leaves a run that failed before any provider call uncosted', async () => {
+    const provider = replay();
+
+    const error = await generateDigest({ ...options, provider }).catch((err: unknown) => err);
+
+    expect(error).not.toBeInstanceOf(DigestGenerationError);
+    const row = failedRunRow(context(provider), Date.now(), error);
+    expect(row).toMatchObject({ total_tokens: null, cost_usd: null, error: 'perplexity: 503 Service Unavailable' });
+  });
+
+  it('counts the structured fallback call in the per-request fee', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = replay('invalid-json', 'api-sources');
+
+    const generated = await generateDigest({ ...options, provider, mode: 'structured' });
+
+    expect(generated.attempts).toBe(1);
+    expect(generated.requests).toBe(2);
+    const row = succeededRunRow(context(provider), Date.now(), generated, 'summary-id');
+    expect(row.cost_usd).toBeCloseTo(generated.usage.totalTokens / 1_000_000 + 2 * 0.005, 6);
+  });
+});
@@ -0,0 +1,130 @@
+// Generation run audit log.
+//
+// Every call to the digest pipeline is recorded in `generation_runs`: who
+// triggered it, which provider and prompt it used, how long it took, what it
+// cost and how it ended. Callers pass in a writer for their own Supabase
+// client so this module stays runtime-independent.
+
+import { estimateCostUsd } from './budgets.ts';
+import { DigestGenerationError, type GeneratedDigest } from './pipeline.ts';
+import type { DigestProvider } from './providers.ts';
+import { QualityGateError } from './quality.ts';
+
+// cron: scheduled Edge Function call; force-generate: the "Force Generate"
+// menu through the Edge Function; client-fallback: "Force Generate" falling
+// back to direct generation; client: a browser tab finding no digest
+export type RunTrigger = 'cron' | 'force-generate' | 'client-fallback' | 'client' | 'backfill';
+
+export type RunOutcome = 'succeeded' | 'failed';
+
+// Persisted shape of a `generation_runs` row
+export interface GenerationRunRow {
+  id: string;
+  trigger: RunTrigger;
+  provider: string;
+  model: string;
+  prompt_version: string | null;
+  edition: string | null;
+  token: string | null;
+  latency_ms: number;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+  // Estimated from usage and `MODEL_PRICING`
+  cost_usd: number | null;
+  citation_count: number | null;
+  attempts: number | null;
+  outcome: RunOutcome;
+  error: string | null;
+  summary_id: string | null;
+  started_at: string;
+  created_at: string;
+}
+
+export type GenerationRunInsert = Omit<GenerationRunRow, 'id' | 'created_at'>;
+
+export interface RunContext {
+  trigger: RunTrigger;
+  provider: Pick<DigestProvider, 'name' | 'model'>;
+  // Requested template; the row records the one actually rendered on success
+  promptVersion?: string;
+  edition?: string | null;
+  token?: string | null;
+}
+
+// Writers log their own failures: losing an audit row must never fail a run
+export type RunWriter = (row: GenerationRunInsert) => Promise<void>;
+
+const RUN_TRIGGERS: RunTrigger[] = ['cron', 'force-generate', 'client-fallback', 'client', 'backfill'];
+
+export const isRunTrigger = (value: unknown): value is RunTrigger =>
+  RUN_TRIGGERS.includes(value as RunTrigger);
+
+const baseRow = (context: RunContext, startedAt: number) => ({
+  trigger: context.trigger,
+  provider: context.provider.name,
+  model: context.provider.model,
+  edition: context.edition ?? null,
+  token: context.token ?? null,
+  latency_ms: Date.now() - startedAt,
+  started_at: new Date(startedAt).toISOString()
+});
+
+export const succeededRunRow = (
+  context: RunContext,
+  startedAt: number,
+  generated: GeneratedDigest,
+  summaryId: string | null
+): GenerationRunInsert => ({
+  ...baseRow(context, startedAt),
+  prompt_version: generated.prompt.id,
+  prompt_tokens: generated.usage.promptTokens,
+  completion_tokens: generated.usage.completionTokens,
+  total_tokens: generated.usage.totalTokens,
+  cost_usd: estimateCostUsd(generated.result.provider, generated.result.model, generated.usage, generated.requests),
+  citation_count: generated.digest.citations.length,
+  attempts: generated.attempts,
+  outcome: 'succeeded',
+  error: null,
+  summary_id: summaryId
+});
+
+// Failures after a provider call carry what every call so far used (see
+// `generateDigest`); failures before the first call used nothing
+export const failedRunRow = (context: RunContext, startedAt: number, error: unknown): GenerationRunInsert => {
+  const spent = error instanceof QualityGateError || error instanceof DigestGenerationError ? error : undefined;
+  const usage = spent?.usage;
+
+  return {
+    ...baseRow(context, startedAt),
+    prompt_version: context.promptVersion ?? null,
+    prompt_tokens: usage?.promptTokens ?? null,
+    completion_tokens: usage?.completionTokens ?? null,
+    total_tokens: usage?.totalTokens ?? null,
+    cost_usd: usage ? estimateCostUsd(context.provider.name, context.provider.model, usage, spent?.requests) : null,
+    citation_count: null,
+    attempts: null,
+    outcome: 'failed',
+    error: error instanceof Error ? error.message : String(error),
+    summary_id: null
+  };
+};
+
+// Runs `run` (generate and store a digest) and records the outcome. Errors
+// are recorded and rethrown.
+export const recordRun = async <T extends { generated: GeneratedDigest; summaryId: string | null }>(
+  context: RunContext,
+  write: RunWriter,
+  run: () => Promise<T>
+): Promise<T> => {
+  const startedAt = Date.now();
+
+  try {
+    const value = await run();
+    await write(succeededRunRow(context, startedAt, value.generated, value.summaryId));
+    return value;
+  } catch (err) {
+    await write(failedRunRow(context, startedAt, err));
+    throw err;
+  }
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { SENTIMENT_CORPUS } from './fixtures/sentiment-corpus.ts';
+import { analyzeSentiment, measureSentimentAccuracy } from './sentiment.ts';
+
+const match = (text: string, term: string) => {
+  const found = analyzeSentiment(text).matches.find(m => m.text.endsWith(term));
+  if (!found) throw new Error(`no match for "${term}" in "${text}"`);
+  return found;
+};
+
+describe('measureSentimentAccuracy', () => {
+  it('keeps the labelled corpus above the accuracy floor', () => {
+    const result = measureSentimentAccuracy(SENTIMENT_CORPUS);
+
+    expect(result.total).toBe(SENTIMENT_CORPUS.length);
+    expect(result.accuracy).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('misses only the documented two-sided paragraphs', () => {
+    const { misses } = measureSentimentAccuracy(SENTIMENT_CORPUS);
+
+    expect(misses.map(miss => [miss.id, miss.expected, miss.actual])).toEqual([
+      ['125bdfff-p0', 'neutral', 'up'],
+      ['125bdfff-p7', 'neutral', 'up']
+    ]);
+  });
+});
+
+describe('negation', () => {
+  it('flips a negated term to the opposite polarity at half weight', () => {
+    const negated = match('Sentiment is not bullish.', 'bullish');
+
+    expect(negated).toMatchObject({ text: 'not … bullish', polarity: 'negative', weight: 0.75, negated: true });
+  });
+
+  it('negates with a failed move', () => {
+    expect(match('Bitcoin failed to rally above $70,000.', 'rally')).toMatchObject({
+      polarity: 'negative',
+      negated: true
+    });
+  });
+
+  it('negates the term before a trailing negator', () => {
+    expect(match('Expected inflows never came.', 'never came')).toMatchObject({
+      text: 'inflows … never came',
+      polarity: 'negative',
+      weight: 0.75
+    });
+  });
+
+  it('reaches only the first term after the negator', () => {
+    const { matches } = analyzeSentiment("The selloff hasn't derailed the rally.");
+
+    expect(matches.map(m => [m.text, m.polarity])).toEqual([
+      ['selloff', 'negative'],
+      ["hasn't … derailed", 'positive'],
+      ['rally', 'positive']
+    ]);
+  });
+
+  it('stops at a clause break', () => {
+    expect(match('Not much news, but Bitcoin rallied.', 'rallied').negated).toBe(false);
+  });
+
+  it('turns "not bullish" into a bearish verdict', () => {
+    const result = analyzeSentiment('Sentiment is not bullish. Bitcoin failed to rally and altcoins slipped.');
+
+    expect(result.sentiment).toBe('down');
+    expect(result.positive).toBe(0);
+  });
+});
+
+describe('intensifiers', () => {
+  it('scales a term by the word before or after it', () => {
+    expect(match('Bitcoin fell.', 'fell').weight).toBe(1);
+    expect(match('Bitcoin fell sharply.', 'fell').weight).toBe(1.5);
+    expect(match('Bitcoin rose slightly.', 'rose').weight).toBe(0.5);
+    expect(match('A massive rally followed.', 'rally').weight).toBe(2);
+  });
+
+  it('combines with negation', () => {
+    expect(match('There was not a strong rally.', 'rally')).toMatchObject({
+      polarity: 'negative',
+      weight: 0.75
+    });
+  });
+
+  it('leaves damped moves short of a verdict', () => {
+    expect(analyzeSentiment('Bitcoin rose slightly while ether dipped modestly.').sentiment).toBe('neutral');
+  });
+});
+
+describe('hedges', () => {
+  it('halves terms in a hypothetical sentence', () => {
+    const hedged = match('If ETH clears $3,200, a rally is on the table.', 'rally');
+
+    expect(hedged).toMatchObject({ hedged: true, weight: 0.5 });
+  });
+
+  it('ends at the sentence', () => {
+    expect(match('A rally could come. Bitcoin surged.', 'surged').hedged).toBe(false);
+  });
+});
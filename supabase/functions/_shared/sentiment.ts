@@ -0,0 +1,444 @@
+// Market sentiment engine.
+//
+// Scores digest text against the weighted lexicon categories in lexicon.ts.
+// A negator shortly before a term ("not bullish", "failed to rally") flips
+// it to the opposite polarity at reduced weight, intensifiers ("fell
+// sharply", "rose slightly") scale it, and hypotheticals ("if ETH clears
+// $3,200, a rally...") count for less. The result carries a verdict, the
+// weighted totals behind it and a confidence, with no side effects, so the
+// same analysis runs in the browser and in Edge Functions.
+
+import { DEFAULT_SENTIMENT_CONFIG, SENTIMENT_ENGINE_VERSION } from './lexicon.ts';
+import { findTokenMentions } from './tokens.ts';
+import type { MarketSentiment, NewsDigest } from './types.ts';
+
+export type SentimentPolarity = 'positive' | 'negative';
+
+export interface LexiconCategory {
+  name: string;
+  polarity: SentimentPolarity;
+  weight: number;
+  // Lower-case words or phrases; phrases match across hyphens ("all time high")
+  terms: string[];
+}
+
+export interface SentimentConfig {
+  categories: LexiconCategory[];
+  negators: string[];
+  // Phrases that negate the term before them ("inflows never came")
+  trailingNegators: string[];
+  // Words that make the rest of the sentence hypothetical ("if", "could")
+  hedges: string[];
+  // Share of a hedged term's weight that counts
+  hedgeFactor: number;
+  // Words that end a negator's or hedge's reach, besides punctuation
+  negationBreaks: string[];
+  // How many words a negator may sit from its term
+  negationWindow: number;
+  // Share of a negated term's weight that counts for the opposite polarity
+  negationFactor: number;
+  // Multipliers for the word before or right after a term
+  intensifiers: Record<string, number>;
+  // Net score (-1 to 1) needed to call the market up or down
+  threshold: number;
+  // Below this total weight the text says too little to call
+  minEvidence: number;
+  // Total weight at which confidence stops growing with more evidence
+  evidenceScale: number;
+}
+
+export interface SentimentMatch {
+  text: string;
+  category: string;
+  // After negation: "not bullish" is a negative match
+  polarity: SentimentPolarity;
+  weight: number;
+  negated: boolean;
+  hedged: boolean;
+}
+
+export interface SentimentResult {
+  sentiment: MarketSentiment;
+  // (positive - negative) / (positive + negative); 0 with no matches
+  score: number;
+  // Weighted totals
+  positive: number;
+  negative: number;
+  // 0-1: how clear the verdict is and how much evidence backs it
+  confidence: number;
+  matches: SentimentMatch[];
+}
+
+export type SentimentSource = 'api' | 'calculated';
+
+// Sentiment stored with each digest at generation time, so later lexicon
+// changes do not rewrite the archive
+export interface DigestSentiment {
+  // Shown to readers: the provider's explicit call when there is one
+  label: MarketSentiment;
+  source: SentimentSource;
+  score: number;
+  confidence: number;
+  positive: number;
+  negative: number;
+  // The engine's own verdict, kept when the provider's label wins
+  calculated: MarketSentiment;
+  indicators: SentimentMatch[];
+  // Lexicon the score came from (see lexicon.ts)
+  engineVersion: string;
+}
+
+// How the provider's label and the engine's verdict relate: the same call,
+// one of them neutral, or opposite calls
+export type SentimentAgreement = 'agree' | 'partial' | 'conflict';
+
+export interface LabelledDigest {
+  id: string;
+  label: MarketSentiment;
+  content: string;
+}
+
+export interface SentimentAccuracy {
+  total: number;
+  correct: number;
+  accuracy: number;
+  // confusion[expected][actual]
+  confusion: Record<MarketSentiment, Record<MarketSentiment, number>>;
+  misses: { id: string; expected: MarketSentiment; actual: MarketSentiment; score: number }[];
+}
+
+const BREAK_TOKENS = new Set(['.', ',', ';', ':', '!', '?', '—', '–']);
+const SENTENCE_END_TOKENS = new Set(['.', ';', '!', '?']);
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/\[\d+\]/g, ' ')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[’‘]/g, "'")
+    .match(/[a-z]+(?:'[a-z]+)?|[.,;:!?—–]/g) ?? [];
+
+interface CompiledTerm {
+  words: string[];
+  category: LexiconCategory;
+}
+
+// Terms indexed by first word, longest first, so "bull market" wins over "bull"
+const compileLexicon = (categories: LexiconCategory[]): Map<string, CompiledTerm[]> => {
+  const index = new Map<string, CompiledTerm[]>();
+  for (const category of categories) {
+    for (const term of category.terms) {
+      const words = tokenize(term);
+      if (words.length === 0) continue;
+      const entries = index.get(words[0]) ?? [];
+      entries.push({ words, category });
+      index.set(words[0], entries);
+    }
+  }
+  for (const entries of index.values()) {
+    entries.sort((a, b) => b.words.length - a.words.length);
+  }
+  return index;
+};
+
+const negate = (polarity: SentimentPolarity): SentimentPolarity =>
+  polarity === 'positive' ? 'negative' : 'positive';
+
+const startsWith = (tokens: string[], at: number, words: string[]): boolean =>
+  words.every((word, offset) => tokens[at + offset] === word);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export const analyzeSentiment = (
+  text: string,
+  config: SentimentConfig = DEFAULT_SENTIMENT_CONFIG
+): SentimentResult => {
+  const tokens = tokenize(text);
+  const lexicon = compileLexicon(config.categories);
+  const negators = new Set(config.negators);
+  const breaks = new Set(config.negationBreaks);
+  const hedges = new Set(config.hedges);
+  const trailingNegators = config.trailingNegators.map(tokenize);
+  const matches: SentimentMatch[] = [];
+
+  // The last negator that has not yet been spent on a term
+  let negatorAt = -Infinity;
+  let negator = '';
+  // The last term in the current clause, and where it ended
+  let lastMatch: SentimentMatch | null = null;
+  let lastMatchEnd = -Infinity;
+  let hedged = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (BREAK_TOKENS.has(token) || breaks.has(token)) {
+      negatorAt = -Infinity;
+      lastMatch = null;
+      // A hedge covers the whole sentence: "if bulls hold $60,000, upside..."
+      if (SENTENCE_END_TOKENS.has(token)) hedged = false;
+      continue;
+    }
+
+    if (hedges.has(token)) {
+      hedged = true;
+      continue;
+    }
+
+    // With no term to negate, the words are read as usual, so the "not" in
+    // "sentiment is not bullish" still negates what follows
+    const trailing = trailingNegators.find(words => startsWith(tokens, i, words));
+    if (trailing && lastMatch && !lastMatch.negated && i - lastMatchEnd <= config.negationWindow) {
+      lastMatch.polarity = negate(lastMatch.polarity);
+      lastMatch.weight = round(lastMatch.weight * config.negationFactor);
+      lastMatch.negated = true;
+      lastMatch.text = `${lastMatch.text} … ${trailing.join(' ')}`;
+      lastMatch = null;
+      i += trailing.length - 1;
+      continue;
+    }
+
+    const term = lexicon.get(token)?.find(candidate => startsWith(tokens, i, candidate.words));
+
+    if (!term) {
+      if (negators.has(token)) {
+        negatorAt = i;
+        negator = token;
+      }
+      continue;
+    }
+
+    // A negator reaches only the first term after it, so "hasn't derailed
+    // the rally" negates "derailed" and leaves "rally" alone
+    const negated = i - negatorAt <= config.negationWindow;
+    if (negated) negatorAt = -Infinity;
+
+    const before = tokens.slice(Math.max(0, i - 2), i).reverse();
+    const after = tokens[i + term.words.length];
+    const intensifier = [...before, after].find(word =>
+      word !== undefined && Object.prototype.hasOwnProperty.call(config.intensifiers, word)
+    );
+    const multiplier = intensifier ? config.intensifiers[intensifier] : 1;
+
+    const { category } = term;
+    lastMatch = {
+      text: negated ? `${negator} … ${term.words.join(' ')}` : term.words.join(' '),
+      category: category.name,
+      polarity: negated ? negate(category.polarity) : category.polarity,
+      weight: round(
+        category.weight * multiplier * (negated ? config.negationFactor : 1) * (hedged ? config.hedgeFactor : 1)
+      ),
+      negated,
+      hedged
+    };
+    matches.push(lastMatch);
+
+    i += term.words.length - 1;
+    lastMatchEnd = i;
+  }
+
+  return summarizeMatches(matches, config);
+};
+
+// Verdict, totals and confidence for a set of matches
+const summarizeMatches = (matches: SentimentMatch[], config: SentimentConfig): SentimentResult => {
+  const positive = round(matches.filter(m => m.polarity === 'positive').reduce((sum, m) => sum + m.weight, 0));
+  const negative = round(matches.filter(m => m.polarity === 'negative').reduce((sum, m) => sum + m.weight, 0));
+  const total = positive + negative;
+  const score = total > 0 ? round((positive - negative) / total) : 0;
+
+  let sentiment: MarketSentiment = 'neutral';
+  if (total >= config.minEvidence && score >= config.threshold) {
+    sentiment = 'up';
+  } else if (total >= config.minEvidence && score <= -config.threshold) {
+    sentiment = 'down';
+  }
+
+  // Clearer scores and more evidence both raise confidence; a neutral call is
+  // clearest when the score sits near zero
+  const evidence = 1 - Math.exp(-total / config.evidenceScale);
+  const clarity = sentiment === 'neutral'
+    ? Math.max(0, 1 - Math.abs(score) / config.threshold)
+    : Math.abs(score);
+
+  return {
+    sentiment,
+    score,
+    positive,
+    negative,
+    confidence: round(evidence * clarity),
+    matches
+  };
+};
+
+export interface SentenceSentiment {
+  // The sentence as it appears in the text, trailing whitespace and citation
+  // markers included, so the sentences join back into the original
+  text: string;
+  sentiment: MarketSentiment;
+  score: number;
+  matches: SentimentMatch[];
+}
+
+// Ends after ".", "!" or "?" plus any citation markers, before the next
+// sentence's capital, digit or quote. Decimals like "$3.2" and initialisms
+// like "U.S." stay whole.
+const SENTENCE_BOUNDARY = /(?<=[.!?](?:\s*\[\d+\])*\s+)(?<!\.[A-Z]\.\s+)(?=["“(]?[A-Z0-9$])/;
+
+// Scores each sentence on its own. Negation and hedging never cross a
+// sentence end, so the matches are the ones the whole text produces. A
+// single sentence rarely reaches `minEvidence`, so it is judged on whatever
+// evidence it has.
+export const analyzeSentences = (
+  text: string,
+  config: SentimentConfig = DEFAULT_SENTIMENT_CONFIG
+): SentenceSentiment[] => {
+  const sentenceConfig = { ...config, minEvidence: 0 };
+  return text
+    .split(SENTENCE_BOUNDARY)
+    .filter(Boolean)
+    .map(sentence => {
+      const result = analyzeSentiment(sentence, sentenceConfig);
+      return { text: sentence, sentiment: result.sentiment, score: result.score, matches: result.matches };
+    });
+};
+
+export interface TokenSentiment {
+  symbol: string;
+  sentiment: MarketSentiment;
+  score: number;
+  positive: number;
+  negative: number;
+  mentions: number;
+  matches: SentimentMatch[];
+}
+
+// How many words on either side of a mention can speak about it
+const TOKEN_CONTEXT_WORDS = 12;
+
+// What sits between two mentions that are one list: "Bitcoin and Ethereum fell"
+const TOKEN_LIST_JOINER = /^[\s,&/]*(?:and|or)?[\s,&/]*$/i;
+
+const firstWords = (text: string, count: number): string =>
+  text.trim().split(/\s+/).slice(0, count).join(' ');
+
+const lastWords = (text: string, count: number): string =>
+  text.trim().split(/\s+/).slice(-count).join(' ');
+
+// Scores sentiment per token mention (see TOKEN_MENTIONS in tokens.ts). A
+// mention's context runs from it to the next mention in the same sentence, so
+// "SOL rallied while BTC slid" is bullish on SOL and bearish on BTC. The first
+// mention also takes the words before it, and mentions listed together share
+// what follows the list. Like sentences, a token is judged on whatever
+// evidence it has. Tokens come back in order of first mention.
+export const analyzeTokenSentiment = (
+  text: string,
+  config: SentimentConfig = DEFAULT_SENTIMENT_CONFIG
+): TokenSentiment[] => {
+  const tokenConfig = { ...config, minEvidence: 0 };
+  const bySymbol = new Map<string, { mentions: number; matches: SentimentMatch[] }>();
+
+  for (const sentence of text.split(SENTENCE_BOUNDARY)) {
+    const mentions = findTokenMentions(sentence);
+    const contexts: string[] = [];
+
+    for (let i = mentions.length - 1; i >= 0; i--) {
+      const next = mentions[i + 1];
+      const after = sentence.slice(mentions[i].index + mentions[i].text.length, next ? next.index : sentence.length);
+      contexts[i] = next && TOKEN_LIST_JOINER.test(after) ? contexts[i + 1] : firstWords(after, TOKEN_CONTEXT_WORDS);
+    }
+    if (mentions.length > 0) {
+      contexts[0] = `${lastWords(sentence.slice(0, mentions[0].index), TOKEN_CONTEXT_WORDS)} ${contexts[0]}`;
+    }
+
+    // "Bitcoin (BTC) rose" names one token twice; count its context once
+    const scored = new Set<string>();
+    mentions.forEach((mention, i) => {
+      const entry = bySymbol.get(mention.symbol) ?? { mentions: 0, matches: [] };
+      entry.mentions++;
+      if (!scored.has(`${mention.symbol}:${contexts[i]}`)) {
+        scored.add(`${mention.symbol}:${contexts[i]}`);
+        entry.matches.push(...analyzeSentiment(contexts[i], tokenConfig).matches);
+      }
+      bySymbol.set(mention.symbol, entry);
+    });
+  }
+
+  return [...bySymbol.entries()].map(([symbol, { mentions, matches }]) => {
+    const result = summarizeMatches(matches, tokenConfig);
+    return {
+      symbol,
+      sentiment: result.sentiment,
+      score: result.score,
+      positive: result.positive,
+      negative: result.negative,
+      mentions,
+      matches
+    };
+  });
+};
+
+export const assessDigestSentiment = (
+  digest: Pick<NewsDigest, 'content' | 'explicitSentiment'>,
+  config: SentimentConfig = DEFAULT_SENTIMENT_CONFIG,
+  engineVersion: string = SENTIMENT_ENGINE_VERSION
+): DigestSentiment => {
+  const result = analyzeSentiment(digest.content, config);
+  return {
+    label: digest.explicitSentiment ?? result.sentiment,
+    source: digest.explicitSentiment ? 'api' : 'calculated',
+    score: result.score,
+    confidence: result.confidence,
+    positive: result.positive,
+    negative: result.negative,
+    calculated: result.sentiment,
+    indicators: result.matches,
+    engineVersion
+  };
+};
+
+export const compareSentiments = (
+  explicit: MarketSentiment,
+  calculated: MarketSentiment
+): SentimentAgreement => {
+  if (explicit === calculated) return 'agree';
+  return explicit === 'neutral' || calculated === 'neutral' ? 'partial' : 'conflict';
+};
+
+// Agreement as a number: 1 for the same call, 0.5 when one side is neutral,
+// 0 for opposite calls
+export const AGREEMENT_SCORES: Record<SentimentAgreement, number> = {
+  agree: 1,
+  partial: 0.5,
+  conflict: 0
+};
+
+// Scores a labelled corpus (see fixtures/sentiment-corpus.ts) with a config,
+// so lexicon changes can be checked against known verdicts
+export const measureSentimentAccuracy = (
+  corpus: LabelledDigest[],
+  config: SentimentConfig = DEFAULT_SENTIMENT_CONFIG
+): SentimentAccuracy => {
+  const labels: MarketSentiment[] = ['up', 'down', 'neutral'];
+  const confusion = Object.fromEntries(
+    labels.map(expected => [expected, Object.fromEntries(labels.map(actual => [actual, 0]))])
+  ) as SentimentAccuracy['confusion'];
+  const misses: SentimentAccuracy['misses'] = [];
+
+  for (const digest of corpus) {
+    const result = analyzeSentiment(digest.content, config);
+    confusion[digest.label][result.sentiment]++;
+    if (result.sentiment !== digest.label) {
+      misses.push({ id: digest.id, expected: digest.label, actual: result.sentiment, score: result.score });
+    }
+  }
+
+  const correct = corpus.length - misses.length;
+  return {
+    total: corpus.length,
+    correct,
+    accuracy: corpus.length > 0 ? round(correct / corpus.length) : 0,
+    confusion,
+    misses
+  };
+};
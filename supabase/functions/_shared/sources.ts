@@ -0,0 +1,89 @@
+// News source allowlist.
+//
+// The outlets a digest may cite live in the `news_sources` table so they can
+// be reweighted or switched off without a redeploy. Generation builds the
+// provider's search domain filter (and the prompt's "prefer" list) from the
+// enabled sources, highest weight first, and tags every citation with the
+// source it came from.
+
+import { DOMAIN_FILTER } from './domains.ts';
+import type { Citation } from './types.ts';
+
+export type NewsSourceCategory = 'news' | 'markets' | 'data' | 'exchange' | 'social';
+
+// Persisted shape of a `news_sources` row
+export interface NewsSource {
+  id: string;
+  domain: string;
+  name: string;
+  category: NewsSourceCategory;
+  enabled: boolean;
+  // Higher weights come first in the domain filter; sources past the
+  // provider's limit are left out
+  weight: number;
+}
+
+// Perplexity accepts at most this many domains in `search_domain_filter`
+export const MAX_SEARCH_DOMAINS = 10;
+
+export type NewsSourcesQuery = () => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+
+// Used when the table cannot be read, so a database hiccup does not stop
+// generation; ids are empty so citations stay untagged
+export const FALLBACK_NEWS_SOURCES: NewsSource[] = DOMAIN_FILTER.map(domain => ({
+  id: '',
+  domain,
+  name: domain,
+  category: 'news',
+  enabled: true,
+  weight: 1
+}));
+
+export const loadNewsSources = async (query: NewsSourcesQuery): Promise<NewsSource[]> => {
+  const { data, error } = await query();
+
+  if (error) {
+    console.error('Error loading news sources, using the built-in list:', error);
+    return FALLBACK_NEWS_SOURCES;
+  }
+
+  const sources = (data ?? []) as NewsSource[];
+  if (sources.length === 0) {
+    console.warn('No news sources configured, using the built-in list');
+    return FALLBACK_NEWS_SOURCES;
+  }
+  return sources;
+};
+
+export const buildDomainFilter = (sources: NewsSource[], limit = MAX_SEARCH_DOMAINS): string[] =>
+  sources
+    .filter(source => source.enabled)
+    .sort((a, b) => b.weight - a.weight || a.domain.localeCompare(b.domain))
+    .slice(0, limit)
+    .map(source => source.domain);
+
+const hostnameOf = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+// The most specific source whose domain is the citation's host or one of its
+// parents (finance.yahoo.com before yahoo.com); disabled sources still match
+// so their citations stay attributable
+export const matchSource = (url: string, sources: NewsSource[]): NewsSource | null => {
+  const hostname = hostnameOf(url);
+  if (!hostname) return null;
+
+  return sources
+    .filter(source => hostname === source.domain || hostname.endsWith(`.${source.domain}`))
+    .sort((a, b) => b.domain.length - a.domain.length)[0] ?? null;
+};
+
+export const tagCitations = (citations: Citation[], sources: NewsSource[]): Citation[] =>
+  citations.map(citation => ({
+    ...citation,
+    sourceId: matchSource(citation.url, sources)?.id || null
+  }));
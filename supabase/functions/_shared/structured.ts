@@ -0,0 +1,306 @@
+// Structured (JSON) digest output.
+//
+// In structured mode the model returns a JSON document instead of prose. It is
+// validated here before use; anything that does not match the schema is
+// rejected so the caller can fall back to the prose pipeline.
+
+export type StructuredSentimentLabel = 'bullish' | 'bearish' | 'neutral';
+
+export interface StructuredClaim {
+  text: string;
+  // Citation numbers supporting this claim
+  citations: number[];
+}
+
+export interface StructuredSection {
+  heading: string;
+  claims: StructuredClaim[];
+}
+
+export interface StructuredTokenNote {
+  symbol: string;
+  note: string;
+  sentiment: StructuredSentimentLabel;
+  citations: number[];
+}
+
+export interface StructuredSource {
+  number: number;
+  url: string;
+  title?: string;
+}
+
+export interface StructuredDigest {
+  headline: string;
+  sections: StructuredSection[];
+  tokens: StructuredTokenNote[];
+  sentiment: {
+    label: StructuredSentimentLabel;
+    // 0..1
+    confidence: number;
+    rationale?: string;
+  };
+  risks: StructuredClaim[];
+  opportunities: StructuredClaim[];
+  // Only needed when the provider does not return sources as metadata
+  sources?: StructuredSource[];
+}
+
+export type StructuredValidationResult =
+  | { ok: true; digest: StructuredDigest }
+  | { ok: false; errors: string[] };
+
+const claimSchema = {
+  type: 'object',
+  required: ['text', 'citations'],
+  properties: {
+    text: { type: 'string' },
+    citations: { type: 'array', items: { type: 'integer', minimum: 1 } }
+  }
+};
+
+const sentimentLabelSchema = { type: 'string', enum: ['bullish', 'bearish', 'neutral'] };
+
+// JSON Schema sent to providers that support constrained output
+export const STRUCTURED_DIGEST_SCHEMA = {
+  type: 'object',
+  required: ['headline', 'sections', 'tokens', 'sentiment', 'risks', 'opportunities'],
+  properties: {
+    headline: { type: 'string' },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['heading', 'claims'],
+        properties: {
+          heading: { type: 'string' },
+          claims: { type: 'array', items: claimSchema }
+        }
+      }
+    },
+    tokens: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['symbol', 'note', 'sentiment', 'citations'],
+        properties: {
+          symbol: { type: 'string' },
+          note: { type: 'string' },
+          sentiment: sentimentLabelSchema,
+          citations: claimSchema.properties.citations
+        }
+      }
+    },
+    sentiment: {
+      type: 'object',
+      required: ['label', 'confidence'],
+      properties: {
+        label: sentimentLabelSchema,
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        rationale: { type: 'string' }
+      }
+    },
+    risks: { type: 'array', items: claimSchema },
+    opportunities: { type: 'array', items: claimSchema },
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['number', 'url'],
+        properties: {
+          number: { type: 'integer', minimum: 1 },
+          url: { type: 'string' },
+          title: { type: 'string' }
+        }
+      }
+    }
+  }
+} as const;
+
+const SENTIMENT_LABELS: StructuredSentimentLabel[] = ['bullish', 'bearish', 'neutral'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isCitationList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(n => Number.isInteger(n) && n > 0);
+
+const validateClaims = (value: unknown, path: string, errors: string[]): StructuredClaim[] => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+
+  return value.flatMap((claim, index) => {
+    if (!isRecord(claim) || !isNonEmptyString(claim.text)) {
+      errors.push(`${path}[${index}].text must be a non-empty string`);
+      return [];
+    }
+    if (!isCitationList(claim.citations)) {
+      errors.push(`${path}[${index}].citations must be an array of positive integers`);
+      return [];
+    }
+    return [{ text: claim.text.trim(), citations: claim.citations }];
+  });
+};
+
+export const validateStructuredDigest = (value: unknown): StructuredValidationResult => {
+  const errors: string[] = [];
+
+  if (!isRecord(value)) {
+    return { ok: false, errors: ['document must be a JSON object'] };
+  }
+
+  if (!isNonEmptyString(value.headline)) {
+    errors.push('headline must be a non-empty string');
+  }
+
+  const sections: StructuredSection[] = [];
+  if (!Array.isArray(value.sections) || value.sections.length === 0) {
+    errors.push('sections must be a non-empty array');
+  } else {
+    value.sections.forEach((section, index) => {
+      if (!isRecord(section) || !isNonEmptyString(section.heading)) {
+        errors.push(`sections[${index}].heading must be a non-empty string`);
+        return;
+      }
+      sections.push({
+        heading: section.heading.trim(),
+        claims: validateClaims(section.claims, `sections[${index}].claims`, errors)
+      });
+    });
+  }
+
+  const tokens: StructuredTokenNote[] = [];
+  if (!Array.isArray(value.tokens)) {
+    errors.push('tokens must be an array');
+  } else {
+    value.tokens.forEach((token, index) => {
+      if (
+        !isRecord(token) ||
+        !isNonEmptyString(token.symbol) ||
+        !isNonEmptyString(token.note) ||
+        !SENTIMENT_LABELS.includes(token.sentiment as StructuredSentimentLabel) ||
+        !isCitationList(token.citations)
+      ) {
+        errors.push(`tokens[${index}] must have symbol, note, sentiment and citations`);
+        return;
+      }
+      tokens.push({
+        symbol: token.symbol.trim().toUpperCase(),
+        note: token.note.trim(),
+        sentiment: token.sentiment as StructuredSentimentLabel,
+        citations: token.citations
+      });
+    });
+  }
+
+  const sentiment = isRecord(value.sentiment) ? value.sentiment : {};
+  const sentimentValid =
+    SENTIMENT_LABELS.includes(sentiment.label as StructuredSentimentLabel) &&
+    typeof sentiment.confidence === 'number' &&
+    sentiment.confidence >= 0 &&
+    sentiment.confidence <= 1;
+  if (!sentimentValid) {
+    errors.push('sentiment must have a label and a confidence between 0 and 1');
+  }
+
+  const risks = validateClaims(value.risks, 'risks', errors);
+  const opportunities = validateClaims(value.opportunities, 'opportunities', errors);
+
+  let sources: StructuredSource[] | undefined;
+  if (value.sources !== undefined) {
+    if (!Array.isArray(value.sources)) {
+      errors.push('sources must be an array');
+    } else {
+      sources = value.sources.flatMap((source, index) => {
+        if (!isRecord(source) || !Number.isInteger(source.number) || !isNonEmptyString(source.url)) {
+          errors.push(`sources[${index}] must have a number and url`);
+          return [];
+        }
+        return [{
+          number: source.number as number,
+          url: source.url,
+          title: isNonEmptyString(source.title) ? source.title : undefined
+        }];
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    digest: {
+      headline: (value.headline as string).trim(),
+      sections,
+      tokens,
+      sentiment: {
+        label: sentiment.label as StructuredSentimentLabel,
+        confidence: sentiment.confidence as number,
+        rationale: isNonEmptyString(sentiment.rationale) ? sentiment.rationale : undefined
+      },
+      risks,
+      opportunities,
+      sources
+    }
+  };
+};
+
+// Models often wrap JSON in code fences or add a sentence before it
+export const extractJsonDocument = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('no JSON object found in response');
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+};
+
+export const parseStructuredDigest = (text: string): StructuredValidationResult => {
+  try {
+    return validateStructuredDigest(extractJsonDocument(text));
+  } catch (err) {
+    return { ok: false, errors: [err instanceof Error ? err.message : String(err)] };
+  }
+};
+
+const formatClaim = (claim: StructuredClaim): string =>
+  `${claim.text}${claim.citations.map(n => `[${n}]`).join('')}`;
+
+// Flatten a structured digest into prose with [n] markers, so `content` stays
+// readable by everything that only understands the prose format
+export const structuredToContent = (digest: StructuredDigest): string => {
+  const blocks: string[] = [digest.headline];
+
+  for (const section of digest.sections) {
+    blocks.push(`${section.heading}:`);
+    blocks.push(section.claims.map(formatClaim).join(' '));
+  }
+
+  if (digest.tokens.length > 0) {
+    blocks.push('Token Notes:');
+    blocks.push(...digest.tokens.map(token => `${token.symbol}: ${formatClaim({ text: token.note, citations: token.citations })}`));
+  }
+
+  if (digest.risks.length > 0) {
+    blocks.push('Key Risks:');
+    blocks.push(digest.risks.map(formatClaim).join(' '));
+  }
+
+  if (digest.opportunities.length > 0) {
+    blocks.push('Opportunities:');
+    blocks.push(digest.opportunities.map(formatClaim).join(' '));
+  }
+
+  return blocks.filter(Boolean).join('\n\n');
+};
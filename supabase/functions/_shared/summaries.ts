@@ -0,0 +1,93 @@
+// Mapping between `NewsDigest` and `daily_summaries` rows, so every reader and
+// writer agrees on column names.
+
+import { extractExplicitSentiment, sentimentFromLabel } from './digest.ts';
+import type { QualityReport } from './quality.ts';
+import { assessDigestSentiment, type DigestSentiment } from './sentiment.ts';
+import type {
+  DailySummaryInsert,
+  DailySummaryRow,
+  NewsDigest,
+  QuarantinedSummaryInsert
+} from './types.ts';
+
+type SentimentColumns = Pick<
+  DailySummaryRow,
+  'sentiment' | 'sentiment_score' | 'sentiment_source' | 'sentiment_details'
+>;
+
+export const sentimentToColumns = (sentiment: DigestSentiment | undefined): SentimentColumns => {
+  if (!sentiment) {
+    return { sentiment: null, sentiment_score: null, sentiment_source: null, sentiment_details: null };
+  }
+
+  const { label, source, score, ...details } = sentiment;
+  return { sentiment: label, sentiment_score: score, sentiment_source: source, sentiment_details: details };
+};
+
+const sentimentFromColumns = (row: DailySummaryRow): DigestSentiment | undefined =>
+  row.sentiment && row.sentiment_source && row.sentiment_details
+    ? {
+        ...row.sentiment_details,
+        label: row.sentiment,
+        source: row.sentiment_source,
+        score: Number(row.sentiment_score ?? 0)
+      }
+    : undefined;
+
+export const digestToRow = (digest: NewsDigest): DailySummaryInsert => ({
+  content: digest.content,
+  citations: digest.citations,
+  timestamp: digest.timestamp,
+  prompt_version: digest.promptVersion ?? null,
+  structured: digest.structured ?? null,
+  token: digest.token ?? null,
+  edition: digest.edition ?? null,
+  citation_report: digest.citationReport ?? null,
+  backfilled: digest.backfilled ?? false,
+  source_freshness: digest.sourceFreshness ?? null,
+  market_snapshot: digest.marketSnapshot ?? null,
+  ...sentimentToColumns(digest.sentiment)
+});
+
+export const digestFromRow = (row: DailySummaryRow): NewsDigest => ({
+  content: row.content,
+  citations: Array.isArray(row.citations) ? row.citations : [],
+  timestamp: row.timestamp,
+  promptVersion: row.prompt_version ?? undefined,
+  structured: row.structured ?? undefined,
+  token: row.token ?? undefined,
+  edition: row.edition ?? undefined,
+  citationReport: row.citation_report ?? undefined,
+  backfilled: row.backfilled ?? false,
+  sourceFreshness: row.source_freshness ?? undefined,
+  marketSnapshot: row.market_snapshot ?? undefined,
+  // The provider's call survives only as the stored label
+  explicitSentiment: row.sentiment_source === 'api' && row.sentiment ? row.sentiment : undefined,
+  sentiment: sentimentFromColumns(row)
+});
+
+export const digestToQuarantineRow = (
+  digest: NewsDigest,
+  report: QualityReport,
+  attempt: number
+): QuarantinedSummaryInsert => ({
+  ...digestToRow(digest),
+  reasons: report.issues,
+  score: report.score,
+  attempt
+});
+
+// Scores a row stored before sentiment was persisted. The provider's call is
+// recovered from a leftover "SENTIMENT:" line or the structured digest.
+export const scoreStoredSummary = (row: DailySummaryRow): DigestSentiment => {
+  const { content, explicitSentiment } = extractExplicitSentiment(row.content);
+  const structuredLabel = row.structured?.sentiment?.label;
+
+  return assessDigestSentiment({
+    content,
+    explicitSentiment: explicitSentiment ??
+      (row.sentiment_source === 'api' && row.sentiment ? row.sentiment : undefined) ??
+      (structuredLabel ? sentimentFromLabel(structuredLabel) : undefined)
+  });
+};
@@ -0,0 +1,52 @@
+// Assets that get their own short digest next to the market-wide summary.
+// `name` is what the prompt uses; `symbol` is stored in daily_summaries.token.
+
+export interface TrackedToken {
+  symbol: string;
+  name: string;
+}
+
+export const TRACKED_TOKENS: TrackedToken[] = [
+  { symbol: 'BTC', name: 'Bitcoin' },
+  { symbol: 'ETH', name: 'Ethereum' },
+  { symbol: 'SOL', name: 'Solana' },
+  { symbol: 'DOT', name: 'Polkadot' },
+  { symbol: 'HBAR', name: 'Hedera' },
+  { symbol: 'DOGE', name: 'Dogecoin' },
+  { symbol: 'XCM', name: 'Coinmetro token' }
+];
+
+export const findTrackedToken = (symbol: string): TrackedToken | undefined =>
+  TRACKED_TOKENS.find(token => token.symbol === symbol.toUpperCase());
+
+// Names and tickers recognised in digest text, and the symbol each one means.
+// Digests render these as token chips and score sentiment per symbol.
+export const TOKEN_MENTIONS: Record<string, string> = {
+  Bitcoin: 'BTC',
+  BTC: 'BTC',
+  Ethereum: 'ETH',
+  ETH: 'ETH',
+  Solana: 'SOL',
+  SOL: 'SOL',
+  XRP: 'XRP',
+  Cardano: 'ADA',
+  ADA: 'ADA',
+  Dogecoin: 'DOGE',
+  DOGE: 'DOGE'
+};
+
+// One capture group, so `text.split(TOKEN_MENTION_PATTERN)` keeps the mentions
+export const TOKEN_MENTION_PATTERN = new RegExp(`\\b(${Object.keys(TOKEN_MENTIONS).join('|')})\\b`, 'g');
+
+export interface TokenMention {
+  symbol: string;
+  text: string;
+  index: number;
+}
+
+export const findTokenMentions = (text: string): TokenMention[] =>
+  [...text.matchAll(TOKEN_MENTION_PATTERN)].map(match => ({
+    symbol: TOKEN_MENTIONS[match[1]],
+    text: match[1],
+    index: match.index ?? 0
+  }));
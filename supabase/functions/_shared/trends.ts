@@ -0,0 +1,143 @@
+// Market sentiment over time, read from the sentiment stored with each digest
+// (see summaries.ts). Rows stored before sentiment was persisted are counted
+// rather than scored here: the trend shows what readers were shown, and the
+// backfill-sentiment Edge Function is the one place old rows get a score.
+
+import {
+  AGREEMENT_SCORES,
+  compareSentiments,
+  type SentimentAgreement
+} from './sentiment.ts';
+import type { DailySummaryRow, MarketSentiment } from './types.ts';
+
+export const SENTIMENT_TREND_RANGES = [30, 90] as const;
+
+export type SentimentTrendRange = typeof SENTIMENT_TREND_RANGES[number];
+
+// Columns the trend needs, so the archive query skips content and citations
+export const SENTIMENT_TREND_COLUMNS =
+  'id, timestamp, edition, sentiment, sentiment_score, sentiment_source, sentiment_details';
+
+export type SentimentTrendRow = Pick<
+  DailySummaryRow,
+  'id' | 'timestamp' | 'edition' | 'sentiment' | 'sentiment_score' | 'sentiment_source' | 'sentiment_details'
+>;
+
+export interface SentimentTrendPoint {
+  id: string;
+  timestamp: string;
+  edition: string | null;
+  // The provider's own call; null when it made none
+  explicit: MarketSentiment | null;
+  // The engine's verdict and score (-1 to 1), kept even when the provider's
+  // call was shown
+  calculated: MarketSentiment;
+  score: number;
+  confidence: number;
+}
+
+export interface SentimentTrend {
+  // Oldest first
+  points: SentimentTrendPoint[];
+  // Rows in the range with no stored sentiment yet
+  unscored: number;
+}
+
+export const buildSentimentTrend = (rows: SentimentTrendRow[]): SentimentTrend => {
+  const points: SentimentTrendPoint[] = [];
+  let unscored = 0;
+
+  for (const row of rows) {
+    if (!row.sentiment || !row.sentiment_details) {
+      unscored++;
+      continue;
+    }
+
+    points.push({
+      id: row.id,
+      timestamp: row.timestamp,
+      edition: row.edition,
+      explicit: row.sentiment_source === 'api' ? row.sentiment : null,
+      calculated: row.sentiment_details.calculated,
+      score: Number(row.sentiment_score ?? 0),
+      confidence: row.sentiment_details.confidence
+    });
+  }
+
+  points.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return { points, unscored };
+};
+
+export interface AgreementWeek {
+  // Monday of the week (UTC), as YYYY-MM-DD
+  start: string;
+  compared: number;
+  agreement: number;
+  conflicts: number;
+}
+
+// How often the provider's label and the lexicon's verdict diverge
+export interface SentimentAgreementReport {
+  // Points with a provider label; the rest have nothing to compare
+  compared: number;
+  counts: Record<SentimentAgreement, number>;
+  // Mean of AGREEMENT_SCORES over the compared points; null with none
+  agreement: number | null;
+  // confusion[explicit][calculated]
+  confusion: Record<MarketSentiment, Record<MarketSentiment, number>>;
+  // Oldest first, so a drift in either verdict shows as a trend
+  weeks: AgreementWeek[];
+  // Opposite calls, most recent first
+  conflicts: SentimentTrendPoint[];
+}
+
+const weekStart = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+};
+
+const mean = (values: number[]): number =>
+  Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100;
+
+export const buildAgreementReport = (points: SentimentTrendPoint[]): SentimentAgreementReport => {
+  const labels: MarketSentiment[] = ['up', 'down', 'neutral'];
+  const confusion = Object.fromEntries(
+    labels.map(explicit => [explicit, Object.fromEntries(labels.map(calculated => [calculated, 0]))])
+  ) as SentimentAgreementReport['confusion'];
+  const counts: Record<SentimentAgreement, number> = { agree: 0, partial: 0, conflict: 0 };
+  const scores: number[] = [];
+  const weeks = new Map<string, { scores: number[]; conflicts: number }>();
+  const conflicts: SentimentTrendPoint[] = [];
+
+  for (const point of points) {
+    if (!point.explicit) continue;
+
+    const agreement = compareSentiments(point.explicit, point.calculated);
+    confusion[point.explicit][point.calculated]++;
+    counts[agreement]++;
+    scores.push(AGREEMENT_SCORES[agreement]);
+    if (agreement === 'conflict') conflicts.push(point);
+
+    const week = weeks.get(weekStart(point.timestamp)) ?? { scores: [], conflicts: 0 };
+    week.scores.push(AGREEMENT_SCORES[agreement]);
+    if (agreement === 'conflict') week.conflicts++;
+    weeks.set(weekStart(point.timestamp), week);
+  }
+
+  return {
+    compared: scores.length,
+    counts,
+    agreement: scores.length > 0 ? mean(scores) : null,
+    confusion,
+    weeks: [...weeks.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([start, week]) => ({
+        start,
+        compared: week.scores.length,
+        agreement: mean(week.scores),
+        conflicts: week.conflicts
+      })),
+    conflicts: conflicts.reverse()
+  };
+};
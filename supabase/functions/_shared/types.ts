@@ -0,0 +1,124 @@
+// Types shared between the Vite client and the Supabase Edge Functions.
+// Keep this file free of runtime-specific imports so both can load it.
+
+import type { CitationReport } from './citations.ts';
+import type { SourceFreshness } from './enrichment.ts';
+import type { MarketSnapshot } from './market.ts';
+import type { QualityIssue } from './quality.ts';
+import type { DigestSentiment, SentimentSource } from './sentiment.ts';
+import type { StructuredDigest } from './structured.ts';
+
+export type MarketSentiment = 'up' | 'down' | 'neutral';
+
+export interface Citation {
+  number: number;
+  title: string;
+  url: string;
+  isCited: boolean;
+  // Google's favicon for the site; the UI shows the cached copy instead (see assets.ts)
+  favicon?: string;
+  // `news_sources` row the URL belongs to; null for outlets outside the list
+  sourceId?: string | null;
+  // Page metadata from the enrichment step (see enrichment.ts)
+  canonicalUrl?: string;
+  publisher?: string;
+  publishedAt?: string;
+  description?: string;
+  enrichedAt?: string;
+  // Latest link check (see links.ts); httpStatus is null when the host was unreachable
+  httpStatus?: number | null;
+  linkCheckedAt?: string;
+  linkDead?: boolean;
+  // Archived snapshot offered in place of a dead link
+  archiveUrl?: string;
+}
+
+export interface NewsDigest {
+  content: string;
+  citations: Citation[];
+  timestamp: string;
+  explicitSentiment?: MarketSentiment;
+  // Prompt template that produced this digest, e.g. "daily-digest@2"
+  promptVersion?: string;
+  // Present when the digest was generated in structured (JSON) mode
+  structured?: StructuredDigest;
+  // Asset symbol for per-token digests; absent for the market-wide summary
+  token?: string;
+  // Trading-session edition (see editions.ts); absent on rows from before editions
+  edition?: string;
+  // Result of the citation integrity pass (see citations.ts)
+  citationReport?: CitationReport;
+  // Retrospective digest generated after the fact for a missed day
+  backfilled?: boolean;
+  // Age of the cited pages; absent when citations were not enriched
+  sourceFreshness?: SourceFreshness;
+  // Scored at generation time (see sentiment.ts); absent on unscored rows
+  sentiment?: DigestSentiment;
+  // Tracked token prices when the digest was written; absent on
+  // retrospectives and when no provider was configured
+  marketSnapshot?: MarketSnapshot;
+}
+
+// `sentiment_details` column: everything in DigestSentiment that does not
+// have a column of its own
+export type SentimentDetails = Omit<DigestSentiment, 'label' | 'source' | 'score'>;
+
+// Persisted shape of a `daily_summaries` row
+export interface DailySummaryRow {
+  id: string;
+  content: string;
+  citations: Citation[];
+  timestamp: string;
+  created_at: string;
+  prompt_version: string | null;
+  structured: StructuredDigest | null;
+  token: string | null;
+  edition: string | null;
+  citation_report: CitationReport | null;
+  // Set by the archive repair tool; hidden rows are not publicly readable
+  hidden: boolean;
+  hidden_reason: string | null;
+  repaired_at: string | null;
+  backfilled: boolean;
+  source_freshness: SourceFreshness | null;
+  sentiment: MarketSentiment | null;
+  sentiment_score: number | null;
+  sentiment_source: SentimentSource | null;
+  sentiment_details: SentimentDetails | null;
+  market_snapshot: MarketSnapshot | null;
+}
+
+type OptionalColumns =
+  | 'id'
+  | 'created_at'
+  | 'prompt_version'
+  | 'structured'
+  | 'token'
+  | 'edition'
+  | 'citation_report'
+  | 'hidden'
+  | 'hidden_reason'
+  | 'repaired_at'
+  | 'backfilled'
+  | 'source_freshness'
+  | 'sentiment'
+  | 'sentiment_score'
+  | 'sentiment_source'
+  | 'sentiment_details'
+  | 'market_snapshot';
+
+export type DailySummaryInsert = Omit<DailySummaryRow, OptionalColumns> &
+  Partial<Pick<DailySummaryRow, OptionalColumns>>;
+
+// Persisted shape of a `quarantined_summaries` row: a digest the quality gate
+// rejected, with the reasons
+type RepairColumns = 'hidden' | 'hidden_reason' | 'repaired_at';
+
+export interface QuarantinedSummaryRow extends Omit<DailySummaryRow, RepairColumns> {
+  reasons: QualityIssue[];
+  score: number;
+  attempt: number;
+}
+
+export type QuarantinedSummaryInsert = Omit<DailySummaryInsert, RepairColumns> &
+  Pick<QuarantinedSummaryRow, 'reasons' | 'score' | 'attempt'>;
@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SENTIMENT_ENGINE_VERSION } from '../_shared/lexicon.ts'
+import { scoreStoredSummary, sentimentToColumns } from '../_shared/summaries.ts'
+import type { DailySummaryRow } from '../_shared/types.ts'
+
+const PAGE_SIZE = 500
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing required environment variables')
+    }
+
+    // Dry run unless explicitly asked to write
+    const body = await req.json().catch(() => ({}))
+    const dryRun = body.apply !== true
+    // Also re-score rows scored by an older lexicon. Off by default: stored
+    // sentiment is history and should only change on purpose.
+    const rescore = body.rescore === true
+
+    // Writing rewrites the public archive, so only the service role may do it
+    if (!dryRun && req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Backfilling sentiment requires the service role key' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const rows: DailySummaryRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('daily_summaries')
+        .select('*')
+        .order('timestamp', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error scanning summaries:', error)
+        throw error
+      }
+
+      rows.push(...(data as DailySummaryRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const pending = rows.filter(row =>
+      !row.sentiment ||
+      (rescore && row.sentiment_details?.engineVersion !== SENTIMENT_ENGINE_VERSION)
+    )
+
+    console.log(`${pending.length} of ${rows.length} summaries need sentiment (${SENTIMENT_ENGINE_VERSION})`)
+
+    const scored = pending.map(row => ({ id: row.id, timestamp: row.timestamp, token: row.token, sentiment: scoreStoredSummary(row) }))
+    const failures: Record<string, string> = {}
+
+    if (!dryRun) {
+      for (const { id, sentiment } of scored) {
+        const { error } = await supabase
+          .from('daily_summaries')
+          .update(sentimentToColumns(sentiment))
+          .eq('id', id)
+
+        if (error) {
+          console.error(`Error storing sentiment for ${id}:`, error)
+          failures[id] = error.message
+        }
+      }
+
+      console.log(`Stored sentiment for ${scored.length - Object.keys(failures).length} summaries`)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: Object.keys(failures).length === 0,
+        dryRun,
+        engineVersion: SENTIMENT_ENGINE_VERSION,
+        scanned: rows.length,
+        scored: scored.map(({ id, timestamp, token, sentiment }) => ({
+          id,
+          timestamp,
+          token,
+          sentiment: sentiment.label,
+          source: sentiment.source,
+          score: sentiment.score,
+          confidence: sentiment.confidence
+        })),
+        failures
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in backfill-sentiment function:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'Unknown error occurred'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -0,0 +1,184 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { datesInRange, findMissingDates, retrospectiveTimestamp } from '../_shared/backfill.ts'
+import { assertWithinBudget, BudgetExceededError, type BudgetRpc } from '../_shared/budgets.ts'
+import { citationEnrichmentFromEnv } from '../_shared/enrichment.ts'
+import { createLeaseHolderId, leaseKey, runWithLease, type LeaseRpc } from '../_shared/leases.ts'
+import { generateDigest } from '../_shared/pipeline.ts'
+import { createDigestProviderFromEnv } from '../_shared/providers.ts'
+import { recordRun, type RunWriter } from '../_shared/runs.ts'
+import { loadNewsSources } from '../_shared/sources.ts'
+import { digestToQuarantineRow, digestToRow } from '../_shared/summaries.ts'
+import type { NewsDigest } from '../_shared/types.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing required environment variables')
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const { from, to } = body
+    const dryRun = body.apply !== true
+
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Expected "from" and "to" dates (YYYY-MM-DD)' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    // Generating costs provider credits, so only the service role may do it
+    if (!dryRun && req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Backfilling requires the service role key' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const dates = datesInRange(from, to)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // A day is covered by any visible market-wide summary with citations
+    const { data, error } = await supabase
+      .from('daily_summaries')
+      .select('timestamp, citations')
+      .is('token', null)
+      .eq('hidden', false)
+      .gte('timestamp', `${from}T00:00:00.000Z`)
+      .lte('timestamp', retrospectiveTimestamp(to))
+
+    if (error) {
+      console.error('Error scanning summaries:', error)
+      throw error
+    }
+
+    const covered = (data || [])
+      .filter(row => Array.isArray(row.citations) && row.citations.length > 0)
+      .map(row => row.timestamp as string)
+    const missing = findMissingDates(dates, covered)
+
+    console.log(`Missing days between ${from} and ${to}:`, missing)
+
+    const backfilled: NewsDigest[] = []
+    const errors: Record<string, string> = {}
+
+    if (!dryRun && missing.length > 0) {
+      const provider = createDigestProviderFromEnv((key) => Deno.env.get(key))
+      const { fetcher, freshness } = citationEnrichmentFromEnv((key) => Deno.env.get(key))
+      const rpc: LeaseRpc = (fn, args) => supabase.rpc(fn, args)
+      const budgetRpc: BudgetRpc = (fn) => supabase.rpc(fn)
+      const holder = createLeaseHolderId('backfill')
+      const sources = await loadNewsSources(() => supabase.from('news_sources').select('*'))
+      const promptVersion = Deno.env.get('DIGEST_RETROSPECTIVE_PROMPT_VERSION') ?? 'retrospective-digest@1'
+      const writeRun: RunWriter = async (row) => {
+        const { error: runError } = await supabase
+          .from('generation_runs')
+          .insert([row])
+
+        if (runError) {
+          console.error('Error recording generation run:', runError)
+        }
+      }
+
+      // One day at a time: a failing day must not block the rest
+      for (const date of missing) {
+        try {
+          // Retrospectives are not tied to an edition; the lease stops two
+          // overlapping backfill runs from both filling the same day
+          const outcome = await runWithLease(rpc, leaseKey(date, null, null), holder, () =>
+            recordRun({ trigger: 'backfill', provider, promptVersion }, writeRun, async () => {
+              await assertWithinBudget(budgetRpc)
+              console.log(`Backfilling ${date} with ${provider.name} (${provider.model})...`)
+
+              const generated = await generateDigest({
+                provider,
+                promptVersion,
+                variables: { date },
+                sources,
+                fetcher,
+                freshness,
+                timestamp: retrospectiveTimestamp(date),
+                onReject: async ({ digest, report, attempt }) => {
+                  const { error: quarantineError } = await supabase
+                    .from('quarantined_summaries')
+                    .insert([digestToQuarantineRow({ ...digest, backfilled: true }, report, attempt)])
+
+                  if (quarantineError) {
+                    console.error('Error quarantining backfilled summary:', quarantineError)
+                  }
+                }
+              })
+
+              const retrospective = { ...generated.digest, backfilled: true }
+              const { data: inserted, error: insertError } = await supabase
+                .from('daily_summaries')
+                .insert([digestToRow(retrospective)])
+                .select('id')
+                .single()
+
+              if (insertError) {
+                throw insertError
+              }
+
+              console.log(`Stored retrospective for ${date} using ${generated.prompt.id}`)
+              return { generated: { ...generated, digest: retrospective }, summaryId: inserted.id as string }
+            })
+          )
+
+          if (outcome.kind === 'generated') {
+            backfilled.push(outcome.value.generated.digest)
+          } else {
+            console.log(`${date} was backfilled by another run: ${outcome.summaryId}`)
+          }
+        } catch (dayError) {
+          console.error(`Error backfilling ${date}:`, dayError)
+          errors[date] = dayError instanceof Error ? dayError.message : String(dayError)
+          // The remaining days would be refused for the same reason
+          if (dayError instanceof BudgetExceededError) break
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: Object.keys(errors).length === 0,
+        dryRun,
+        missing,
+        backfilled,
+        errors
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in backfill-summaries function:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'Unknown error occurred'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -0,0 +1,159 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  assetHostname,
+  cacheAsset,
+  createDirectoryAssetStore,
+  createStorageAssetStore,
+  faviconKey,
+  faviconSources,
+  tokenLogoKey,
+  TOKEN_LOGO_SOURCES,
+  type AssetStore,
+  type CachedAsset
+} from '../_shared/assets.ts'
+import type { Citation } from '../_shared/types.ts'
+
+// Citations older than this are not worth an icon lookup
+const CITATION_LOOKBACK_DAYS = 30
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing required environment variables')
+    }
+
+    // Uploading needs the service role; the cron job sends it
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Caching assets requires the service role key' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const body = await req.json().catch(() => ({}))
+    // Re-fetch assets that are already cached, e.g. after a site rebrands
+    const force = body.force === true
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // ASSET_STORE=directory writes to ASSET_DIR instead, for local development
+    const store: AssetStore = Deno.env.get('ASSET_STORE') === 'directory'
+      ? createDirectoryAssetStore(Deno.env.get('ASSET_DIR') ?? './asset-cache', {
+          exists: async (path) => {
+            try {
+              await Deno.stat(path)
+              return true
+            } catch {
+              return false
+            }
+          },
+          writeFile: async (path, bytes) => {
+            await Deno.mkdir(path.slice(0, path.lastIndexOf('/')), { recursive: true })
+            await Deno.writeFile(path, bytes)
+          }
+        })
+      : createStorageAssetStore(supabase.storage.from('assets'))
+
+    const { data: sources, error: sourcesError } = await supabase
+      .from('news_sources')
+      .select('domain')
+
+    if (sourcesError) {
+      console.error('Error loading news sources:', sourcesError)
+      throw sourcesError
+    }
+
+    const since = new Date(Date.now() - CITATION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const { data: summaries, error: summariesError } = await supabase
+      .from('daily_summaries')
+      .select('citations')
+      .eq('hidden', false)
+      .gte('timestamp', since)
+
+    if (summariesError) {
+      console.error('Error loading recent citations:', summariesError)
+      throw summariesError
+    }
+
+    const hostnames = new Set<string>()
+    for (const source of sources || []) {
+      const hostname = assetHostname(source.domain as string)
+      if (hostname) hostnames.add(hostname)
+    }
+    for (const summary of summaries || []) {
+      for (const citation of (summary.citations || []) as Citation[]) {
+        const hostname = assetHostname(citation.url)
+        if (hostname) hostnames.add(hostname)
+      }
+    }
+
+    const jobs: { key: string; sources: string[] }[] = [
+      ...[...hostnames].sort().map(hostname => ({ key: faviconKey(hostname), sources: faviconSources(hostname) })),
+      ...Object.entries(TOKEN_LOGO_SOURCES).map(([symbol, url]) => ({ key: tokenLogoKey(symbol), sources: [url] }))
+    ]
+
+    console.log(`Checking ${jobs.length} assets in ${store.name}...`)
+
+    const cached: CachedAsset[] = []
+    const errors: Record<string, string> = {}
+    let skipped = 0
+
+    // One at a time: icon hosts are slow but there are only a few dozen
+    for (const job of jobs) {
+      try {
+        const asset = await cacheAsset(store, job.key, job.sources, { force })
+        if (asset) {
+          console.log(`Cached ${asset.key} from ${asset.sourceUrl} (${asset.bytes} bytes)`)
+          cached.push(asset)
+        } else {
+          skipped++
+        }
+      } catch (assetError) {
+        console.error(`Error caching ${job.key}:`, assetError)
+        errors[job.key] = assetError instanceof Error ? assetError.message : String(assetError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: Object.keys(errors).length === 0,
+        store: store.name,
+        cached,
+        skipped,
+        errors
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in cache-assets function:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'Unknown error occurred'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  applyLinkChecks,
+  archiveLookupFromEnv,
+  checkLink,
+  isDeadLink,
+  planLinkChecks,
+  type LinkCheck,
+  type LinkCheckRow
+} from '../_shared/links.ts'
+
+const PAGE_SIZE = 500
+// URLs checked per run; the rest wait for the next run
+const DEFAULT_LIMIT = 200
+const CONCURRENCY = 4
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing required environment variables')
+    }
+
+    // Writing rewrites the public archive, so only the service role may do it
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Checking links requires the service role key' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const limit = Number(body.limit) > 0 ? Number(body.limit) : DEFAULT_LIMIT
+    const recheckAfterDays = Number(body.recheckAfterDays) >= 0 ? Number(body.recheckAfterDays) : undefined
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const archiveLookup = archiveLookupFromEnv((key) => Deno.env.get(key))
+
+    const rows: LinkCheckRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('daily_summaries')
+        .select('id, timestamp, citations')
+        .eq('hidden', false)
+        .order('timestamp', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error scanning summaries:', error)
+        throw error
+      }
+
+      rows.push(...(data as LinkCheckRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const plan = planLinkChecks(rows, new Date(), { recheckAfterDays })
+    const urls = plan.urls.slice(0, limit)
+    console.log(`Checking ${urls.length} of ${plan.urls.length} due citation URLs...`)
+
+    const checks = new Map<string, { check: LinkCheck; archiveUrl: string | null }>()
+    let next = 0
+
+    const worker = async () => {
+      while (next < urls.length) {
+        const url = urls[next++]
+        const check = await checkLink(url)
+        let archiveUrl: string | null = null
+
+        // Look for a snapshot as soon as a link looks gone; the digest's own
+        // date picks the copy closest to what it cited
+        if (archiveLookup && (check.httpStatus === null || isDeadLink(check))) {
+          try {
+            archiveUrl = await archiveLookup(url, plan.citedAt[url])
+          } catch (lookupError) {
+            console.warn(`Archive lookup failed for ${url}:`, lookupError)
+          }
+        }
+
+        checks.set(url, { check, archiveUrl })
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, urls.length) }, worker))
+
+    const failures: Record<string, string> = {}
+    let updated = 0
+    let dead = 0
+
+    for (const row of rows) {
+      const citations = applyLinkChecks(row.citations ?? [], checks)
+      if (!citations) continue
+
+      dead += citations.filter(citation => citation.linkDead).length
+
+      const { error } = await supabase
+        .from('daily_summaries')
+        .update({ citations })
+        .eq('id', row.id)
+
+      if (error) {
+        console.error(`Error recording link checks on ${row.id}:`, error)
+        failures[row.id] = error.message
+      } else {
+        updated++
+      }
+    }
+
+    const archived = [...checks.values()].filter(result => result.archiveUrl).length
+    console.log(`Checked ${checks.size} URLs: ${dead} dead citations, ${archived} snapshots found, ${updated} summaries updated`)
+
+    return new Response(
+      JSON.stringify({
+        success: Object.keys(failures).length === 0,
+        checked: checks.size,
+        remaining: plan.urls.length - urls.length,
+        deadCitations: dead,
+        archived,
+        updated,
+        failures
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in check-citation-links function:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'Unknown error occurred'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -1,41 +1,136 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { createPerplexity } from 'https://esm.sh/@ai-sdk/perplexity@1'
-import { generateText } from 'https://esm.sh/ai@4'
-
-// Types
-interface Citation {
-  number: number;
-  title: string;
-  url: string;
-  isCited: boolean;
-  favicon: string;
+import { assertWithinBudget, BudgetExceededError, type BudgetRpc } from '../_shared/budgets.ts'
+import { currentEdition, editionDay, getEdition, isEditionId, type EditionId } from '../_shared/editions.ts'
+import { citationEnrichmentFromEnv } from '../_shared/enrichment.ts'
+import { createLeaseHolderId, leaseKey, runWithLease, type LeaseRpc } from '../_shared/leases.ts'
+import { marketDataFromEnv } from '../_shared/market.ts'
+import { generateDigest, isDigestOutputMode, type RejectedDigest } from '../_shared/pipeline.ts'
+import { createDigestProviderFromEnv } from '../_shared/providers.ts'
+import { isRunTrigger, recordRun, type RunTrigger, type RunWriter } from '../_shared/runs.ts'
+import { loadNewsSources } from '../_shared/sources.ts'
+import { digestFromRow, digestToQuarantineRow, digestToRow } from '../_shared/summaries.ts'
+import { findTrackedToken, TRACKED_TOKENS } from '../_shared/tokens.ts'
+import type { NewsDigest } from '../_shared/types.ts'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface NewsDigest {
-  content: string;
-  citations: Citation[];
-  timestamp: string;
-  explicitSentiment?: 'up' | 'down' | 'neutral';
+// Latest digest for an edition on a UTC day; `token` null means the
+// market-wide summary
+const findEditionSummary = async (
+  supabase: SupabaseClient,
+  edition: EditionId,
+  day: { start: string; end: string },
+  token: string | null
+): Promise<NewsDigest | null> => {
+  let query = supabase
+    .from('daily_summaries')
+    .select('*')
+    .eq('edition', edition)
+    .eq('hidden', false)
+    .gte('timestamp', day.start)
+    .lt('timestamp', day.end)
+
+  query = token === null ? query.is('token', null) : query.eq('token', token)
+
+  const { data, error } = await query
+    .order('timestamp', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    console.error('Error checking existing summary:', error)
+    if (error.code !== 'PGRST116') { // PGRST116 means no data found
+      throw error
+    }
+  }
+
+  return data && data.length > 0 ? digestFromRow(data[0]) : null
 }
 
-// Domain filtering configuration for Perplexity API
-const DOMAIN_FILTER = [
-  "coinmetro.com",
-  "reuters.com",
-  "coingecko.com",
-  "coindesk.com",
-  "cointelegraph.com",
-  "x.com",
-  "cnbc.com",
-  "fortune.com",
-  "reddit.com",
-  "finance.yahoo.com"
-];
+const loadSummary = async (supabase: SupabaseClient, id: string): Promise<NewsDigest> => {
+  const { data, error } = await supabase
+    .from('daily_summaries')
+    .select('*')
+    .eq('id', id)
+    .single()
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  if (error) {
+    console.error('Error loading summary:', error)
+    throw error
+  }
+
+  return digestFromRow(data)
+}
+
+// Returns the id of the new row so the generation lease can point at it
+const storeDigest = async (supabase: SupabaseClient, digest: NewsDigest): Promise<string> => {
+  console.log(`Storing ${digest.token ?? 'market'} summary in database...`)
+
+  const { data, error: insertError } = await supabase
+    .from('daily_summaries')
+    .insert([digestToRow(digest)])
+    .select('id')
+    .single()
+
+  if (insertError) {
+    console.error('Error storing summary:', insertError)
+    throw insertError
+  }
+
+  console.log('Successfully stored summary in database')
+  return data.id
+}
+
+const runWriter = (supabase: SupabaseClient): RunWriter => async (row) => {
+  const { error } = await supabase
+    .from('generation_runs')
+    .insert([row])
+
+  if (error) {
+    console.error('Error recording generation run:', error)
+  }
+}
+
+// Queues one invocation per tracked token through pg_net (see the
+// add_token_digest_dispatch migration) and returns without waiting for them
+const dispatchTokenDigests = async (
+  supabase: SupabaseClient,
+  edition: EditionId,
+  trigger: RunTrigger
+): Promise<string[]> => {
+  const tokens = TRACKED_TOKENS.map(token => token.symbol)
+  const { error } = await supabase.rpc('dispatch_token_digests', {
+    p_edition: edition,
+    p_trigger: trigger,
+    p_tokens: tokens
+  })
+
+  if (error) {
+    throw new Error(`dispatch_token_digests failed: ${error.message}`)
+  }
+
+  console.log(`Dispatched ${tokens.length} token digests for ${edition}`)
+  return tokens
+}
+
+// Digests rejected by the quality gate are kept for review, never published
+const quarantineDigest = async (supabase: SupabaseClient, rejected: RejectedDigest) => {
+  const { digest, report, attempt } = rejected
+  console.warn(`Quarantining ${digest.token ?? 'market'} summary (attempt ${attempt}):`, report.issues)
+
+  const { error } = await supabase
+    .from('quarantined_summaries')
+    .insert([digestToQuarantineRow(digest, report, attempt)])
+
+  // A failed quarantine write must not stop the regeneration
+  if (error) {
+    console.error('Error quarantining summary:', error)
+  }
 }
 
 serve(async (req) => {
@@ -50,173 +145,134 @@ serve(async (req) => {
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const perplexityApiKey = Deno.env.get('VITE_PERPLEXITY_API_KEY')!
 
-    if (!supabaseUrl || !supabaseServiceKey || !perplexityApiKey) {
+    if (!supabaseUrl || !supabaseServiceKey) {
       throw new Error('Missing required environment variables')
     }
 
+    const provider = createDigestProviderFromEnv((key) => Deno.env.get(key))
+    const { fetcher, freshness } = citationEnrichmentFromEnv((key) => Deno.env.get(key))
+    const marketData = marketDataFromEnv((key) => Deno.env.get(key))
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Check if summary already exists in the last 6 hours
+    const rpc: LeaseRpc = (fn, args) => supabase.rpc(fn, args)
+    const budgetRpc: BudgetRpc = (fn) => supabase.rpc(fn)
+    const holder = createLeaseHolderId('cron')
+    const writeRun = runWriter(supabase)
+    // Read per request so a source switched off applies to the next run
+    const sources = await loadNewsSources(() => supabase.from('news_sources').select('*'))
+
+    const body = await req.json().catch(() => ({}))
+    const outputMode = Deno.env.get('DIGEST_OUTPUT_MODE')
+
+    // Cron jobs name their edition; manual triggers get the latest one to open
+    if (body.edition !== undefined && !isEditionId(body.edition)) {
+      throw new Error(`Unknown edition: ${body.edition}`)
+    }
     const now = new Date()
-    const sixHoursAgo = new Date(now.getTime() - (6 * 60 * 60 * 1000))
+    const edition = body.edition ? getEdition(body.edition) : currentEdition(now)
+    const day = editionDay(now)
 
-    console.log('Checking for existing summary since:', {
-      fromDate: sixHoursAgo.toISOString(),
-      currentTime: now.toISOString()
-    })
-
-    const { data: existingSummary, error: checkError } = await supabase
-      .from('daily_summaries')
-      .select('*')
-      .gte('timestamp', sixHoursAgo.toISOString())
-      .order('timestamp', { ascending: false })
-      .limit(1)
-
-    if (checkError) {
-      console.error('Error checking existing summary:', checkError)
-      if (checkError.code !== 'PGRST116') { // PGRST116 means no data found
-        throw checkError
-      }
-    }
+    // The "Force Generate" menu says so; everything else is the scheduler
+    const trigger = isRunTrigger(body.trigger) ? body.trigger : 'cron'
 
-    if (existingSummary && existingSummary.length > 0) {
-      console.log('Summary already exists within the last 6 hours:', existingSummary[0].timestamp)
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'Summary already exists within the last 6 hours',
-          summary: existingSummary[0]
-        }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200 
-        }
-      )
+    // Token invocations are dispatched by the market run below
+    const token = body.token === undefined ? null : findTrackedToken(body.token)
+    if (body.token !== undefined && !token) {
+      throw new Error(`Unknown token: ${body.token}`)
     }
+    const label = token ? `${edition.label} ${token.symbol}` : edition.label
 
-    console.log('No existing summary found, generating new one...')
-
-    // Generate new summary using Perplexity
-    const prompt = 'Provide a unformatted concise but detailed analysis of todays most recent cryptocurrency market developments focusing on Solana Ethereum Bitcoin Polkadot Hedera Dogecoin Coinmetro token and other major tokens from multiple sources, including price movements only if major, significant news, and prevailing market sentiment with an emphasis on foresight. Only use information that is up-to-date as of the time of this request. Focus on actionable insights for traders. Sources should be diverse and not from one source. Include citations for your sources and number them sequentially. Format the response in clear paragraphs with proper spacing. Prioritize clarity, urgency, and immediate tradable insights. Use a sharp, direct voice that cuts through noise, think financial journalism meets street-smart trading floor. Avoid academic language; speak directly to traders bottom-line interests. Highlight potential opportunities and risks in a way that feels like insider knowledge, not generic reporting. Do not refer to the daily market as "todays market"—refer to it as "the market." Only use information that is current as of the time of this request; do not include outdated or speculative data.'
-
-    console.log('Calling Perplexity API...')
-
-    const perplexity = createPerplexity({
-      apiKey: perplexityApiKey
-    })
-
-    const { text: generatedText, sources: apiSources } = await generateText({
-      model: perplexity('sonar-pro'),
-      prompt: prompt,
-      temperature: 0.7,
-      experimental_providerMetadata: {
-        perplexity: {
-          search_domain_filter: DOMAIN_FILTER
-        }
-      }
+    console.log('Checking for existing summary:', {
+      edition: edition.id,
+      token: token?.symbol ?? null,
+      date: day.date,
+      currentTime: now.toISOString()
     })
 
-    console.log('Received response from Perplexity API')
-    console.log('Sources from API:', apiSources)
+    let summary = await findEditionSummary(supabase, edition.id, day, token?.symbol ?? null)
+    let message = `${label} summary already exists for ${day.date}`
+
+    if (summary) {
+      console.log(`${label} summary already exists:`, summary.timestamp)
+    } else {
+      console.log('No existing summary found, generating new one...')
+
+      // The lease stops a browser tab that is generating the same edition
+      // from producing a second row
+      const promptVersion = token
+        ? Deno.env.get('DIGEST_TOKEN_PROMPT_VERSION') ?? 'token-digest@2'
+        : Deno.env.get('DIGEST_PROMPT_VERSION') ?? 'daily-digest@3'
+      const run = { trigger, provider, promptVersion, edition: edition.id, token: token?.symbol ?? null }
+
+      const outcome = await runWithLease(rpc, leaseKey(day.date, edition.id, token?.symbol ?? null), holder, () =>
+        recordRun(run, writeRun, async () => {
+          await assertWithinBudget(budgetRpc)
+          console.log(`Calling ${provider.name} (${provider.model}) for the ${label} digest...`)
+
+          // Render the prompt, call the provider and run the raw output through the
+          // same pipeline the client uses, so cron-generated and force-generated
+          // rows are stored in the same shape. Token digests are always prose.
+          const generated = await generateDigest({
+            provider,
+            promptVersion,
+            mode: !token && isDigestOutputMode(outputMode) ? outputMode : 'prose',
+            structuredPromptVersion: Deno.env.get('DIGEST_STRUCTURED_PROMPT_VERSION'),
+            variables: token
+              ? { focusTokens: [token.name], emphasis: edition.emphasis }
+              : { emphasis: edition.emphasis },
+            sources,
+            fetcher,
+            freshness,
+            marketData,
+            token: token?.symbol,
+            edition: edition.id,
+            onReject: (rejected) => quarantineDigest(supabase, rejected)
+          })
+          const { digest, prompt, result, usage, quality, attempts } = generated
+
+          console.log(`Received response from ${result.provider} using ${prompt.id}`)
+          console.log('Sources from provider:', result.sources)
+          console.log('Token usage:', usage)
+          console.log(`Processed digest: found ${digest.citations.length} valid citations${digest.structured ? ' (structured)' : ''}`)
+          console.log(`Passed quality gate after ${attempts} attempt(s) with score ${quality.score}`)
+
+          return { generated, summaryId: await storeDigest(supabase, digest) }
+        })
+      )
 
-    // Helper function to extract domain name from URL
-    const getDomainName = (url: string): string => {
-      try {
-        if (!url || url === '#') return 'Unknown Source';
-        
-        // Handle URLs that might not have protocol
-        const fullUrl = url.startsWith('http') ? url : `https://${url}`;
-        const urlObj = new URL(fullUrl);
-        
-        // Extract the domain without 'www.'
-        let domain = urlObj.hostname.replace(/^www\./, '');
-        
-        // Capitalize first letter for display
-        return domain.charAt(0).toUpperCase() + domain.slice(1);
-      } catch (error) {
-        console.error('Error parsing URL:', url, error);
-        return 'Unknown Source';
+      if (outcome.kind === 'generated') {
+        summary = outcome.value.generated.digest
+        message = 'Summary generated and stored successfully'
+      } else {
+        summary = await loadSummary(supabase, outcome.summaryId)
+        message = `${label} summary was generated by another caller for ${day.date}`
       }
-    };
+    }
+
+    // Generating every token digest here as well would outlast the function's
+    // wall-clock limit, so each one gets an invocation (and a lease) of its
+    // own. A failing token cannot block the others or the market summary.
+    let dispatchedTokens: string[] = []
+    let dispatchError: string | null = null
 
-    // Helper function to get favicon
-    const getFavicon = async (url: string): Promise<string> => {
+    if (!token && body.tokens !== false) {
       try {
-        if (!url || url === '#') return '';
-        
-        // Ensure URL has protocol
-        const fullUrl = url.startsWith('http') ? url : `https://${url}`;
-        const urlObj = new URL(fullUrl);
-        const domain = urlObj.hostname;
-        
-        // Use Google's favicon service
-        return `https://www.google.com/s2/favicons?domain=${domain}`;
+        dispatchedTokens = await dispatchTokenDigests(supabase, edition.id, trigger)
       } catch (error) {
-        console.error('Error getting favicon for URL:', url, error);
-        return '';
-      }
-    };
-
-    // Process the response and create citations
-    const citations: Citation[] = []
-    
-    if (apiSources && Array.isArray(apiSources)) {
-      for (let index = 0; index < apiSources.length; index++) {
-        const source = apiSources[index];
-        const url = source.url || '#';
-        const title = source.title || getDomainName(url);
-        const favicon = await getFavicon(url);
-        
-        citations.push({
-          number: index + 1,
-          title: title,
-          url: url,
-          isCited: true,
-          favicon: favicon
-        });
+        console.error('Error dispatching token digests:', error)
+        dispatchError = error instanceof Error ? error.message : String(error)
       }
     }
 
-    // Validate that we have citations - empty citations indicate corrupted response
-    if (!citations || citations.length === 0) {
-      console.error('Invalid response from Perplexity API: no citations found')
-      throw new Error('Invalid response from Perplexity API: citations are empty or corrupted')
-    }
-
-    console.log(`Validation passed: Found ${citations.length} valid citations, response is not corrupted`)
-
-    // Create the digest
-    const digest: NewsDigest = {
-      content: generatedText,
-      citations: citations,
-      timestamp: new Date().toISOString()
-    }
-
-    console.log('Storing summary in database...')
-
-    // Store the summary in the database
-    const { error: insertError } = await supabase
-      .from('daily_summaries')
-      .insert([{
-        content: digest.content,
-        citations: digest.citations,
-        timestamp: digest.timestamp
-      }])
-
-    if (insertError) {
-      console.error('Error storing summary:', insertError)
-      throw insertError
-    }
-
-    console.log('Successfully stored summary in database')
-
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: 'Summary generated and stored successfully',
-        summary: digest
+        message,
+        edition: edition.id,
+        token: token?.symbol ?? null,
+        summary,
+        dispatchedTokens,
+        dispatchError
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -226,15 +282,21 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error in generate-daily-summary function:', error)
+
+    // Refusals are not failures: callers should stop retrying and serve the
+    // latest stored digest
+    const budgetExceeded = error instanceof BudgetExceededError
     
     return new Response(
       JSON.stringify({ 
         success: false, 
-        error: error.message || 'Unknown error occurred' 
+        error: error.message || 'Unknown error occurred',
+        budgetExceeded,
+        budget: budgetExceeded ? error.status : undefined
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
+        status: budgetExceeded ? 429 : 500 
       }
     )
   }
@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { formatRepairReport, planArchiveRepair } from '../_shared/repair.ts'
+import type { DailySummaryRow } from '../_shared/types.ts'
+
+const PAGE_SIZE = 500
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing required environment variables')
+    }
+
+    // Dry run unless explicitly asked to write
+    const body = await req.json().catch(() => ({}))
+    const dryRun = body.apply !== true
+
+    // Writing rewrites the public archive, so only the service role may do it
+    if (!dryRun && req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Applying repairs requires the service role key' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Oldest first, so the original of a duplicate is the one that is kept
+    const rows: DailySummaryRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('daily_summaries')
+        .select('*')
+        .eq('hidden', false)
+        .order('timestamp', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error scanning summaries:', error)
+        throw error
+      }
+
+      rows.push(...(data as DailySummaryRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    console.log(`Scanned ${rows.length} summaries`)
+
+    const plan = planArchiveRepair(rows)
+    const report = formatRepairReport(plan, dryRun)
+    console.log(report)
+
+    const failures: Record<string, string> = {}
+
+    if (!dryRun) {
+      const repairedAt = new Date().toISOString()
+
+      for (const repair of plan.repairs) {
+        if (repair.action === 'none') continue
+
+        const update = repair.action === 'fix'
+          ? { ...repair.update, repaired_at: repairedAt }
+          : { hidden: true, hidden_reason: repair.reason ?? null, repaired_at: repairedAt }
+
+        const { error } = await supabase
+          .from('daily_summaries')
+          .update(update)
+          .eq('id', repair.id)
+
+        if (error) {
+          console.error(`Error applying ${repair.action} to ${repair.id}:`, error)
+          failures[repair.id] = error.message
+        }
+      }
+
+      console.log(`Applied ${plan.counts.fix} fixes and ${plan.counts.hide} hides`)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: Object.keys(failures).length === 0,
+        dryRun,
+        scanned: plan.scanned,
+        counts: plan.counts,
+        report,
+        repairs: plan.repairs.filter(repair => repair.action !== 'none'),
+        failures
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in repair-summaries function:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'Unknown error occurred'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -0,0 +1,18 @@
+/*
+  # Record the prompt template behind each summary
+
+  1. Changes
+    - `daily_summaries.prompt_version` (text, e.g. `daily-digest@2`)
+    - Existing rows all came from the original prompt and are backfilled
+      as `daily-digest@1`
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS prompt_version text;
+
+UPDATE daily_summaries
+  SET prompt_version = 'daily-digest@1'
+  WHERE prompt_version IS NULL;
+
+CREATE INDEX IF NOT EXISTS daily_summaries_prompt_version_idx
+  ON daily_summaries (prompt_version);
@@ -0,0 +1,12 @@
+/*
+  # Store structured (JSON mode) digests
+
+  1. Changes
+    - `daily_summaries.structured` (jsonb, nullable)
+      Validated JSON document with sections, per-token notes, sentiment with
+      confidence, risks, opportunities and per-claim citation numbers.
+      `content` is still populated with a prose rendering for older readers.
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS structured jsonb;
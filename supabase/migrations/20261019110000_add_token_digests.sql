@@ -0,0 +1,15 @@
+/*
+  # Per-token digests
+
+  1. Changes
+    - `daily_summaries.token` (text, nullable)
+      Asset symbol (e.g. `SOL`) for per-token digests. The market-wide
+      summary keeps `token` NULL, so existing rows are unaffected.
+    - Index on (token, timestamp) for "latest digest per asset" lookups
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS token text;
+
+CREATE INDEX IF NOT EXISTS daily_summaries_token_timestamp_idx
+  ON daily_summaries (token, timestamp DESC);
@@ -0,0 +1,15 @@
+/*
+  # Trading-session editions
+
+  1. Changes
+    - `daily_summaries.edition` (text, nullable)
+      Edition id (`asia-open`, `eu-open`, `us-open`). Each edition is
+      generated once per UTC day. Rows from before editions keep NULL.
+    - Index on (edition, timestamp) for "this edition today" lookups
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS edition text;
+
+CREATE INDEX IF NOT EXISTS daily_summaries_edition_timestamp_idx
+  ON daily_summaries (edition, timestamp DESC);
@@ -0,0 +1,70 @@
+/*
+  # Schedule one summary run per trading-session edition
+
+  Replaces the single 6:00 AM UTC `generate_daily_summary` job with one job
+  per edition. Each job passes its edition to the Edge Function, which skips
+  generation if that edition already exists for the UTC day.
+
+  Times must match `startUtc` in supabase/functions/_shared/editions.ts:
+    - asia-open: 00:00 UTC
+    - eu-open:   07:00 UTC
+    - us-open:   13:30 UTC
+*/
+
+-- Remove the old daily job and any previous edition jobs (safe to run multiple times)
+SELECT cron.unschedule(jobname)
+FROM cron.job
+WHERE jobname IN (
+  'generate_daily_summary',
+  'generate_summary_asia_open',
+  'generate_summary_eu_open',
+  'generate_summary_us_open'
+);
+
+SELECT cron.schedule(
+  'generate_summary_asia_open',
+  '0 0 * * *',
+  $$
+  SELECT 
+    net.http_post(
+      url := current_setting('app.supabase_url') || '/functions/v1/generate-daily-summary',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      body := '{"edition": "asia-open"}'::jsonb
+    ) as response;
+  $$
+);
+
+SELECT cron.schedule(
+  'generate_summary_eu_open',
+  '0 7 * * *',
+  $$
+  SELECT 
+    net.http_post(
+      url := current_setting('app.supabase_url') || '/functions/v1/generate-daily-summary',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      body := '{"edition": "eu-open"}'::jsonb
+    ) as response;
+  $$
+);
+
+SELECT cron.schedule(
+  'generate_summary_us_open',
+  '30 13 * * *',
+  $$
+  SELECT 
+    net.http_post(
+      url := current_setting('app.supabase_url') || '/functions/v1/generate-daily-summary',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      body := '{"edition": "us-open"}'::jsonb
+    ) as response;
+  $$
+);
@@ -0,0 +1,12 @@
+/*
+  # Citation coverage report
+
+  1. Changes
+    - `daily_summaries.citation_report` (jsonb, nullable)
+      Output of the citation integrity pass: marker and source counts,
+      dangling markers, unused sources and the renumbering applied.
+      Rows stored before the pass keep NULL.
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS citation_report jsonb;
@@ -0,0 +1,42 @@
+/*
+  # Quarantine for digests that fail the quality gate
+
+  1. New Tables
+    - `quarantined_summaries`
+      - Same digest columns as `daily_summaries`
+      - `reasons` (jsonb, array of {check, message} from the quality gate)
+      - `score` (numeric, share of quality checks passed)
+      - `attempt` (integer, generation attempt that produced the digest)
+
+  2. Security
+    - Enable RLS on `quarantined_summaries` table
+    - Allow inserts from the client's direct-generation path
+    - No public read access; review quarantined rows with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS quarantined_summaries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  content text NOT NULL,
+  citations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  timestamp timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  prompt_version text,
+  structured jsonb,
+  token text,
+  edition text,
+  citation_report jsonb,
+  reasons jsonb NOT NULL DEFAULT '[]'::jsonb,
+  score numeric NOT NULL,
+  attempt integer NOT NULL DEFAULT 1
+);
+
+CREATE INDEX IF NOT EXISTS quarantined_summaries_created_at_idx
+  ON quarantined_summaries (created_at DESC);
+
+ALTER TABLE quarantined_summaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow quarantine inserts"
+  ON quarantined_summaries
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
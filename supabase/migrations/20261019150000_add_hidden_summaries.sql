@@ -0,0 +1,28 @@
+/*
+  # Hide unrepairable summaries
+
+  1. Changes
+    - `daily_summaries.hidden` (boolean, default false)
+      Set by the `repair-summaries` Edge Function for rows whose citations
+      cannot be recovered, and for duplicates of an earlier row
+    - `daily_summaries.hidden_reason` (text, nullable)
+    - `daily_summaries.repaired_at` (timestamptz, nullable)
+      When the repair tool last fixed or hid the row
+
+  2. Security
+    - Public read access now excludes hidden rows. The service role still
+      sees them, so a hide can be reviewed and reverted.
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS hidden boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hidden_reason text,
+  ADD COLUMN IF NOT EXISTS repaired_at timestamptz;
+
+DROP POLICY IF EXISTS "Allow public read access" ON daily_summaries;
+
+CREATE POLICY "Allow public read access"
+  ON daily_summaries
+  FOR SELECT
+  TO anon
+  USING (hidden = false);
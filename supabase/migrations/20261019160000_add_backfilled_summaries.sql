@@ -0,0 +1,18 @@
+/*
+  # Backfilled summaries
+
+  1. Changes
+    - `daily_summaries.backfilled` and `quarantined_summaries.backfilled`
+      (boolean, default false)
+      True for retrospective digests generated by the `backfill-summaries`
+      Edge Function for days the scheduled run missed. Their `timestamp` is
+      the end of the day they describe, not the time they were written
+      (that is `created_at`).
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS backfilled boolean NOT NULL DEFAULT false;
+
+-- Quarantined rows carry the same digest columns
+ALTER TABLE quarantined_summaries
+  ADD COLUMN IF NOT EXISTS backfilled boolean NOT NULL DEFAULT false;
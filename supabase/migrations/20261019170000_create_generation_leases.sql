@@ -0,0 +1,128 @@
+/*
+  # Generation leases
+
+  The cron job, "Force Generate" and every open browser tab can each decide
+  to generate the same digest. A lease per (day, edition, token) lets exactly
+  one caller generate; the others wait for and reuse its result.
+
+  1. New Tables
+    - `generation_leases`
+      - `lease_key` (text, unique): "<YYYY-MM-DD>:<edition>:<token or market>"
+      - `status` (text): pending -> running -> succeeded | failed
+      - `holder` (text): random id of the caller holding the lease
+      - `summary_id` (uuid): the stored summary, once succeeded
+      - `error` (text): failure message
+      - `attempts` (integer): how many times the lease was (re)acquired
+      - `expires_at` (timestamptz): a pending/running lease past this time is
+        considered abandoned and can be taken over
+
+  2. Functions
+    - `acquire_generation_lease`: claims the lease when it is new, failed,
+      abandoned, or succeeded and `p_force` is set. Returns the lease either
+      way; the caller holds it when `holder` matches and `status` is pending.
+    - `update_generation_lease`: moves a held lease through the state
+      machine and rejects any other transition. Moving a running lease to
+      running again is the holder's heartbeat and renews it.
+
+  3. Security
+    - Enable RLS with no policies; the table is only reachable through the
+      functions above
+*/
+
+CREATE TABLE IF NOT EXISTS generation_leases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lease_key text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  holder text NOT NULL,
+  summary_id uuid REFERENCES daily_summaries(id) ON DELETE SET NULL,
+  error text,
+  attempts integer NOT NULL DEFAULT 1,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE generation_leases ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION acquire_generation_lease(
+  p_lease_key text,
+  p_holder text,
+  p_ttl_seconds integer DEFAULT 180,
+  p_force boolean DEFAULT false
+)
+RETURNS generation_leases
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lease generation_leases;
+BEGIN
+  INSERT INTO generation_leases (lease_key, holder, status, expires_at)
+  VALUES (p_lease_key, p_holder, 'pending', now() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (lease_key) DO UPDATE
+    SET holder = EXCLUDED.holder,
+        status = 'pending',
+        summary_id = NULL,
+        error = NULL,
+        attempts = generation_leases.attempts + 1,
+        expires_at = EXCLUDED.expires_at,
+        updated_at = now()
+    WHERE generation_leases.status = 'failed'
+      OR (generation_leases.status IN ('pending', 'running') AND generation_leases.expires_at < now())
+      OR (p_force AND generation_leases.status = 'succeeded')
+  RETURNING * INTO lease;
+
+  -- Someone else holds the lease (or it already succeeded): report its state
+  IF NOT FOUND THEN
+    SELECT * INTO lease FROM generation_leases WHERE lease_key = p_lease_key;
+  END IF;
+
+  RETURN lease;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_generation_lease(
+  p_lease_key text,
+  p_holder text,
+  p_status text,
+  p_summary_id uuid DEFAULT NULL,
+  p_error text DEFAULT NULL,
+  p_ttl_seconds integer DEFAULT 180
+)
+RETURNS generation_leases
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lease generation_leases;
+BEGIN
+  UPDATE generation_leases
+  SET status = p_status,
+      summary_id = COALESCE(p_summary_id, summary_id),
+      error = p_error,
+      -- Starting the provider call and every heartbeat renew the lease
+      expires_at = CASE WHEN p_status = 'running' THEN now() + make_interval(secs => p_ttl_seconds) ELSE expires_at END,
+      updated_at = now()
+  WHERE lease_key = p_lease_key
+    AND holder = p_holder
+    AND (
+      (status = 'pending' AND p_status IN ('running', 'failed'))
+      OR (status = 'running' AND p_status IN ('running', 'succeeded', 'failed'))
+    )
+  RETURNING * INTO lease;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid generation lease transition: % to % by %', p_lease_key, p_status, p_holder;
+  END IF;
+
+  RETURN lease;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION acquire_generation_lease(text, text, integer, boolean) TO anon;
+GRANT EXECUTE ON FUNCTION acquire_generation_lease(text, text, integer, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_generation_lease(text, text, text, uuid, text, integer) TO anon;
+GRANT EXECUTE ON FUNCTION update_generation_lease(text, text, text, uuid, text, integer) TO authenticated;
@@ -0,0 +1,119 @@
+/*
+  # Generation run audit log
+
+  1. New Tables
+    - `generation_runs`, one row per call to the digest pipeline
+      - `trigger` (text): cron, force-generate, client-fallback, client or backfill
+      - `provider`, `model` (text): digest provider that was called
+      - `prompt_version` (text): template rendered (requested one on failure)
+      - `edition`, `token` (text): what was being generated
+      - `latency_ms` (integer): wall time of generation and storage
+      - `prompt_tokens`, `completion_tokens`, `total_tokens` (integer):
+        summed over every provider call of the run; null on failure
+      - `citation_count` (integer): citations on the stored digest
+      - `attempts` (integer): quality-gate attempts used
+      - `outcome` (text): succeeded or failed
+      - `error` (text): failure message
+      - `summary_id` (uuid): the stored summary
+      - `started_at` (timestamptz)
+
+  2. Functions
+    - `record_generation_run(p_run jsonb)`: records a run of the browser's
+      direct-generation path (`client` and `client-fallback` triggers only).
+      Rejects negative values and caps the rest, so a forged row cannot
+      claim more than one real run could use.
+
+  3. Security
+    - Enable RLS on `generation_runs` table
+    - Allow public read access for the runs view; rows hold no secrets
+    - No insert policy: the Edge Functions write with the service role and
+      the browser goes through `record_generation_run`
+*/
+
+CREATE TABLE IF NOT EXISTS generation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger text NOT NULL
+    CHECK (trigger IN ('cron', 'force-generate', 'client-fallback', 'client', 'backfill')),
+  provider text NOT NULL,
+  model text NOT NULL,
+  prompt_version text,
+  edition text,
+  token text,
+  latency_ms integer NOT NULL,
+  prompt_tokens integer,
+  completion_tokens integer,
+  total_tokens integer,
+  citation_count integer,
+  attempts integer,
+  outcome text NOT NULL CHECK (outcome IN ('succeeded', 'failed')),
+  error text,
+  summary_id uuid REFERENCES daily_summaries(id) ON DELETE SET NULL,
+  started_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS generation_runs_started_at_idx
+  ON generation_runs (started_at DESC);
+
+ALTER TABLE generation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access"
+  ON generation_runs
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE OR REPLACE FUNCTION record_generation_run(p_run jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  run generation_runs := jsonb_populate_record(NULL::generation_runs, p_run);
+  run_id uuid;
+BEGIN
+  IF run.trigger IS DISTINCT FROM 'client' AND run.trigger IS DISTINCT FROM 'client-fallback' THEN
+    RAISE EXCEPTION 'Only client runs can be recorded: %', run.trigger;
+  END IF;
+
+  -- LEAST skips nulls: a failed run has no usage
+  IF LEAST(run.latency_ms, run.prompt_tokens, run.completion_tokens, run.total_tokens,
+           run.citation_count, run.attempts) < 0 THEN
+    RAISE EXCEPTION 'Generation run values must not be negative';
+  END IF;
+
+  -- Two quality-gate attempts, each with a structured-mode fallback, stay
+  -- well inside these caps
+  INSERT INTO generation_runs (
+    trigger, provider, model, prompt_version, edition, token, latency_ms,
+    prompt_tokens, completion_tokens, total_tokens, citation_count, attempts,
+    outcome, error, summary_id, started_at
+  )
+  VALUES (
+    run.trigger,
+    left(run.provider, 64),
+    left(run.model, 64),
+    left(run.prompt_version, 64),
+    left(run.edition, 32),
+    left(run.token, 16),
+    LEAST(run.latency_ms, 600000),
+    LEAST(run.prompt_tokens, 40000),
+    LEAST(run.completion_tokens, 40000),
+    LEAST(run.total_tokens, 40000),
+    LEAST(run.citation_count, 100),
+    LEAST(run.attempts, 2),
+    run.outcome,
+    left(run.error, 1000),
+    run.summary_id,
+    -- A run dated ahead would count against a later budget period
+    LEAST(run.started_at, now())
+  )
+  RETURNING id INTO run_id;
+
+  RETURN run_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_generation_run(jsonb) TO anon;
+GRANT EXECUTE ON FUNCTION record_generation_run(jsonb) TO authenticated;
@@ -0,0 +1,143 @@
+/*
+  # Generation budgets
+
+  1. Modified Tables
+    - `generation_runs`
+      - `cost_usd` (numeric): estimated cost of the run, from its token usage
+      - `total_tokens` and `cost_usd` must not be negative: a negative row
+        would hand back spend the budgets below already counted
+
+  2. New Tables
+    - `generation_budgets`, one row per period
+      - `period` (text, primary key): `day` or `month` (calendar, UTC)
+      - `token_limit` (bigint): total tokens allowed per period; null = unlimited
+      - `cost_limit_usd` (numeric): estimated spend allowed per period; null = unlimited
+
+  3. Functions
+    - `generation_budget_status()`: each budget with the tokens and cost used
+      so far in the current period and when the period resets
+    - `record_generation_run(p_run jsonb)`: now also records `cost_usd`,
+      capped like the token counts
+
+  4. Security
+    - Enable RLS on `generation_budgets` with public read access; change the
+      limits with the service role
+*/
+
+ALTER TABLE generation_runs
+  ADD COLUMN IF NOT EXISTS cost_usd numeric(10, 6) CHECK (cost_usd >= 0),
+  ADD CONSTRAINT generation_runs_total_tokens_check CHECK (total_tokens >= 0);
+
+CREATE TABLE IF NOT EXISTS generation_budgets (
+  period text PRIMARY KEY CHECK (period IN ('day', 'month')),
+  token_limit bigint CHECK (token_limit >= 0),
+  cost_limit_usd numeric(10, 2) CHECK (cost_limit_usd >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Three editions of the market digest and of each of the seven tracked
+-- tokens make 24 generations a day, 48 if every one needs a second attempt.
+-- At about 2,250 tokens each that is 18-36% of the daily token limit, which
+-- leaves room for "Force Generate" and backfills
+INSERT INTO generation_budgets (period, token_limit, cost_limit_usd)
+VALUES
+  ('day', 300000, 5.00),
+  ('month', 6000000, 100.00)
+ON CONFLICT (period) DO NOTHING;
+
+ALTER TABLE generation_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access"
+  ON generation_budgets
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE OR REPLACE FUNCTION generation_budget_status()
+RETURNS TABLE (
+  period text,
+  token_limit bigint,
+  cost_limit_usd numeric,
+  tokens_used bigint,
+  cost_used_usd numeric,
+  resets_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH periods AS (
+    SELECT
+      b.*,
+      date_trunc(b.period, now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS starts_at
+    FROM generation_budgets b
+  )
+  SELECT
+    p.period,
+    p.token_limit,
+    p.cost_limit_usd,
+    COALESCE(SUM(r.total_tokens), 0)::bigint,
+    COALESCE(SUM(r.cost_usd), 0)::numeric,
+    p.starts_at + ('1 ' || p.period)::interval
+  FROM periods p
+  LEFT JOIN generation_runs r ON r.started_at >= p.starts_at
+  GROUP BY p.period, p.token_limit, p.cost_limit_usd, p.starts_at
+  ORDER BY p.period;
+$$;
+
+GRANT EXECUTE ON FUNCTION generation_budget_status() TO anon;
+GRANT EXECUTE ON FUNCTION generation_budget_status() TO authenticated;
+
+-- Same checks as in create_generation_runs, plus the run's estimated cost
+CREATE OR REPLACE FUNCTION record_generation_run(p_run jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  run generation_runs := jsonb_populate_record(NULL::generation_runs, p_run);
+  run_id uuid;
+BEGIN
+  IF run.trigger IS DISTINCT FROM 'client' AND run.trigger IS DISTINCT FROM 'client-fallback' THEN
+    RAISE EXCEPTION 'Only client runs can be recorded: %', run.trigger;
+  END IF;
+
+  -- LEAST skips nulls: a failed run has no usage
+  IF LEAST(run.latency_ms, run.prompt_tokens, run.completion_tokens, run.total_tokens,
+           run.citation_count, run.attempts, run.cost_usd) < 0 THEN
+    RAISE EXCEPTION 'Generation run values must not be negative';
+  END IF;
+
+  -- 40,000 tokens at the fallback sonar-pro price, plus four request fees,
+  -- come to about $0.63
+  INSERT INTO generation_runs (
+    trigger, provider, model, prompt_version, edition, token, latency_ms,
+    prompt_tokens, completion_tokens, total_tokens, cost_usd, citation_count,
+    attempts, outcome, error, summary_id, started_at
+  )
+  VALUES (
+    run.trigger,
+    left(run.provider, 64),
+    left(run.model, 64),
+    left(run.prompt_version, 64),
+    left(run.edition, 32),
+    left(run.token, 16),
+    LEAST(run.latency_ms, 600000),
+    LEAST(run.prompt_tokens, 40000),
+    LEAST(run.completion_tokens, 40000),
+    LEAST(run.total_tokens, 40000),
+    LEAST(run.cost_usd, 1.00),
+    LEAST(run.citation_count, 100),
+    LEAST(run.attempts, 2),
+    run.outcome,
+    left(run.error, 1000),
+    run.summary_id,
+    LEAST(run.started_at, now())
+  )
+  RETURNING id INTO run_id;
+
+  RETURN run_id;
+END;
+$$;
@@ -0,0 +1,84 @@
+/*
+  # News source allowlist
+
+  1. New Tables
+    - `news_sources`
+      - `domain` (text, unique): e.g. `finance.yahoo.com`; subdomains match too
+      - `name` (text): display name
+      - `category` (text): news, markets, data, exchange or social
+      - `enabled` (boolean): disabled sources are left out of the search
+        domain filter from the next generation on
+      - `weight` (numeric): priority; the highest-weighted enabled sources
+        fill the provider's domain filter (at most 10) and lead the prompt's
+        preferred-sources list
+
+  2. Views
+    - `news_source_usage`: per source, citations and digests over the last
+      30 days, from the `sourceId` each citation is tagged with
+
+  3. Security
+    - Enable RLS on `news_sources` table with public read access; manage
+      sources with the service role
+
+  Seeded with the previous hard-coded list, weighted to keep its order.
+*/
+
+CREATE TABLE IF NOT EXISTS news_sources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain text NOT NULL UNIQUE,
+  name text NOT NULL,
+  category text NOT NULL DEFAULT 'news'
+    CHECK (category IN ('news', 'markets', 'data', 'exchange', 'social')),
+  enabled boolean NOT NULL DEFAULT true,
+  weight numeric(6, 2) NOT NULL DEFAULT 1,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO news_sources (domain, name, category, weight)
+VALUES
+  ('coinmetro.com', 'Coinmetro', 'exchange', 10),
+  ('reuters.com', 'Reuters', 'news', 9),
+  ('coingecko.com', 'CoinGecko', 'data', 8),
+  ('coindesk.com', 'CoinDesk', 'news', 7),
+  ('cointelegraph.com', 'Cointelegraph', 'news', 6),
+  ('x.com', 'X', 'social', 5),
+  ('cnbc.com', 'CNBC', 'markets', 4),
+  ('fortune.com', 'Fortune', 'news', 3),
+  ('reddit.com', 'Reddit', 'social', 2),
+  ('finance.yahoo.com', 'Yahoo Finance', 'markets', 1)
+ON CONFLICT (domain) DO NOTHING;
+
+ALTER TABLE news_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access"
+  ON news_sources
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE OR REPLACE VIEW news_source_usage AS
+WITH recent_citations AS (
+  SELECT d.id AS summary_id, d.timestamp, c.value AS citation
+  FROM daily_summaries d
+  CROSS JOIN LATERAL jsonb_array_elements(d.citations) AS c(value)
+  WHERE d.hidden = false
+    AND d.timestamp > now() - interval '30 days'
+)
+SELECT
+  s.id,
+  s.domain,
+  s.name,
+  s.category,
+  s.enabled,
+  s.weight,
+  COUNT(rc.citation) AS citations,
+  COUNT(rc.citation) FILTER (WHERE (rc.citation->>'isCited')::boolean IS DISTINCT FROM false) AS cited,
+  COUNT(DISTINCT rc.summary_id) AS digests,
+  MAX(rc.timestamp) AS last_cited_at
+FROM news_sources s
+LEFT JOIN recent_citations rc ON rc.citation->>'sourceId' = s.id::text
+GROUP BY s.id
+ORDER BY citations DESC, s.weight DESC;
+
+GRANT SELECT ON news_source_usage TO anon;
@@ -0,0 +1,21 @@
+/*
+  # Source freshness
+
+  1. Changes
+    - `daily_summaries.source_freshness` and
+      `quarantined_summaries.source_freshness` (jsonb, nullable)
+      {datedSources, staleSources, maxAgeDays, isStale}: how many enriched
+      citations have a known publish date and how many of those were older
+      than the threshold when the digest was written. Null when citations
+      were not enriched.
+
+  Enriched citation metadata (canonicalUrl, publisher, publishedAt,
+  description) is stored inside the existing `citations` JSON.
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS source_freshness jsonb;
+
+-- Quarantined rows carry the same digest columns
+ALTER TABLE quarantined_summaries
+  ADD COLUMN IF NOT EXISTS source_freshness jsonb;
@@ -0,0 +1,57 @@
+/*
+  # Self-hosted favicon and token logo cache
+
+  1. Storage
+    - Public `assets` bucket holding `favicons/<hostname>` and
+      `tokens/<SYMBOL>`, written by the `cache-assets` Edge Function with the
+      service role and served to the UI from
+      `/storage/v1/object/public/assets/...`
+
+  2. Scheduled jobs
+    - `cache_assets` (00:45 and 07:45 UTC) and `cache_assets_us_open`
+      (14:15 UTC): 45 minutes after each edition run, so icons for newly
+      cited sites are cached soon after they first appear. The us-open
+      edition starts on the half hour, so it needs its own job. Assets
+      already in the bucket are skipped.
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('assets', 'assets', true, 262144, ARRAY['image/*'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Remove any previous jobs (safe to run multiple times)
+SELECT cron.unschedule(jobname)
+FROM cron.job
+WHERE jobname IN ('cache_assets', 'cache_assets_us_open');
+
+SELECT cron.schedule(
+  'cache_assets',
+  '45 0,7 * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.supabase_url') || '/functions/v1/cache-assets',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      body := '{}'::jsonb
+    ) as response;
+  $$
+);
+
+SELECT cron.schedule(
+  'cache_assets_us_open',
+  '15 14 * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.supabase_url') || '/functions/v1/cache-assets',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      body := '{}'::jsonb
+    ) as response;
+  $$
+);
@@ -0,0 +1,33 @@
+/*
+  # Schedule citation link checks
+
+  1. Scheduled jobs
+    - `check_citation_links`: daily at 03:00 UTC, between editions. Calls the
+      `check-citation-links` Edge Function, which re-checks citation URLs in
+      `daily_summaries` that have not been checked for 7 days (at most 200
+      per run). It records `httpStatus`, `linkCheckedAt`, `linkDead` and, for
+      links that look gone, an `archiveUrl` snapshot on each citation.
+
+  No schema change: the results are stored on the citations themselves.
+*/
+
+-- Remove any previous job (safe to run multiple times)
+SELECT cron.unschedule(jobname)
+FROM cron.job
+WHERE jobname = 'check_citation_links';
+
+SELECT cron.schedule(
+  'check_citation_links',
+  '0 3 * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.supabase_url') || '/functions/v1/check-citation-links',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      body := '{}'::jsonb
+    ) as response;
+  $$
+);
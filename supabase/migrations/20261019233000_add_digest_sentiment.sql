@@ -0,0 +1,33 @@
+/*
+  # Stored digest sentiment
+
+  1. Changes
+    - `daily_summaries` and `quarantined_summaries` gain:
+      - `sentiment` (text, nullable): `up`, `down` or `neutral`, as shown to
+        readers
+      - `sentiment_score` (numeric, nullable): engine score from -1 to 1
+      - `sentiment_source` (text, nullable): `api` when the provider stated
+        the sentiment explicitly, `calculated` when the engine decided
+      - `sentiment_details` (jsonb, nullable): {confidence, positive,
+        negative, calculated, indicators, engineVersion}
+
+  Rows written before this migration stay null until the
+  `backfill-sentiment` Edge Function scores them.
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS sentiment text
+    CHECK (sentiment IN ('up', 'down', 'neutral')),
+  ADD COLUMN IF NOT EXISTS sentiment_score numeric(4, 2),
+  ADD COLUMN IF NOT EXISTS sentiment_source text
+    CHECK (sentiment_source IN ('api', 'calculated')),
+  ADD COLUMN IF NOT EXISTS sentiment_details jsonb;
+
+-- Quarantined rows carry the same digest columns
+ALTER TABLE quarantined_summaries
+  ADD COLUMN IF NOT EXISTS sentiment text
+    CHECK (sentiment IN ('up', 'down', 'neutral')),
+  ADD COLUMN IF NOT EXISTS sentiment_score numeric(4, 2),
+  ADD COLUMN IF NOT EXISTS sentiment_source text
+    CHECK (sentiment_source IN ('api', 'calculated')),
+  ADD COLUMN IF NOT EXISTS sentiment_details jsonb;
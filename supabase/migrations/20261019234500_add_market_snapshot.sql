@@ -0,0 +1,19 @@
+/*
+  # Market snapshot stored with each digest
+
+  1. Changes
+    - `daily_summaries` and `quarantined_summaries` gain `market_snapshot`
+      (jsonb, nullable): {provider, capturedAt, quotes: [{symbol, price,
+      change24h, volume24h, asOf}]} for the tracked tokens, captured when the
+      digest passed the quality gate
+
+  Rows written before this migration, retrospectives from backfill-summaries
+  and digests generated with MARKET_DATA_PROVIDER=none stay null.
+*/
+
+ALTER TABLE daily_summaries
+  ADD COLUMN IF NOT EXISTS market_snapshot jsonb;
+
+-- Quarantined rows carry the same digest columns
+ALTER TABLE quarantined_summaries
+  ADD COLUMN IF NOT EXISTS market_snapshot jsonb;
@@ -0,0 +1,44 @@
+/*
+  # Dispatch token digests to their own invocations
+
+  Generating the market digest and every tracked token in one Edge Function
+  call regularly outlasted the wall-clock limit, leaving later tokens
+  ungenerated. The market run now calls `dispatch_token_digests` instead,
+  which queues one `generate-daily-summary` request per token through
+  pg_net and returns at once. Each token invocation takes its own
+  generation lease, so a retried dispatch cannot generate a token twice.
+
+  1. Functions
+    - `dispatch_token_digests(p_edition, p_trigger, p_tokens)`: posts
+      `{"edition", "trigger", "token"}` for each symbol in `p_tokens`, using
+      the same settings as the cron jobs
+
+  2. Security
+    - Only the service role may call it; anon and authenticated callers
+      would otherwise be able to queue paid generations
+*/
+
+CREATE OR REPLACE FUNCTION dispatch_token_digests(
+  p_edition text,
+  p_trigger text,
+  p_tokens text[]
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.supabase_url') || '/functions/v1/generate-daily-summary',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      body := jsonb_build_object('edition', p_edition, 'trigger', p_trigger, 'token', token)
+    )
+  FROM unnest(p_tokens) AS token;
+$$;
+
+REVOKE EXECUTE ON FUNCTION dispatch_token_digests(text, text, text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION dispatch_token_digests(text, text, text[]) TO service_role;